@@ -0,0 +1,32 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+const coreDirectory = path.join(process.cwd(), "node_modules", "@ffmpeg", "core", "dist");
+
+const coreFiles: Record<string, string> = {
+  "ffmpeg-core.js": "text/javascript",
+  "ffmpeg-core.wasm": "application/wasm",
+  "ffmpeg-core.worker.js": "text/javascript"
+};
+
+export async function GET(_request: Request, { params }: { params: { file: string } }) {
+  const contentType = coreFiles[params.file];
+  if (!contentType) {
+    return new Response("Not found", { status: 404 });
+  }
+  try {
+    const data = await readFile(path.join(coreDirectory, params.file));
+    return new Response(data, {
+      headers: {
+        "Content-Type": contentType,
+        "Cache-Control": "public, max-age=31536000, immutable"
+      }
+    });
+  } catch {
+    return new Response(
+      `${params.file} is missing from ${coreDirectory}. ` +
+        "Video export needs the ffmpeg.wasm core: run `npm install @ffmpeg/core@0.11`.",
+      { status: 500, headers: { "Content-Type": "text/plain" } }
+    );
+  }
+}
@@ -1,33 +1,115 @@
-import { Suspense, useMemo, useRef } from "react";
-import { Canvas, useFrame, useLoader } from "@react-three/fiber";
-import { Environment, Float, Html, OrbitControls } from "@react-three/drei";
-import { MathUtils, SRGBColorSpace, TextureLoader, Vector3 } from "three";
-import type { Group, Mesh } from "three";
-import type { EmotionPreset } from "@/lib/emotions";
+import { Component, Suspense, useEffect, useMemo, useRef, useState } from "react";
+import type { MutableRefObject, ReactNode, RefObject } from "react";
+import { Canvas, useFrame, useLoader, useThree } from "@react-three/fiber";
+import { Environment, Float, Html, OrbitControls, useGLTF } from "@react-three/drei";
+import {
+  Box3,
+  Color,
+  DoubleSide,
+  MathUtils,
+  SRGBColorSpace,
+  TextureLoader,
+  Vector3,
+  VideoTexture
+} from "three";
+import type {
+  Group,
+  Mesh,
+  MeshStandardMaterial,
+  PerspectiveCamera,
+  SpotLight,
+  Texture
+} from "three";
 import type { AvatarPreset } from "@/lib/presets";
-import type { LipState } from "@/hooks/useLipSyncEngine";
+import type { LipState, StageRenderer } from "@/hooks/useLipSyncEngine";
+import {
+  CHROMA_GREEN,
+  coverFit,
+  defaultBackground,
+  type StageBackground
+} from "@/lib/background";
+import { cameraAt, defaultCameraPlan, shotFraming, type CameraPlan } from "@/lib/camera";
+import { castPositions } from "@/lib/dialogue";
+import {
+  defaultLandmarks,
+  sampleLidColor,
+  type FaceLandmarks,
+  type LandmarkPoint,
+  type PortraitPreset
+} from "@/lib/landmarks";
+import {
+  applyPortraitWarp,
+  createWarpUniforms,
+  EYE_ASPECT,
+  setWarpGeometry,
+  setWarpPose,
+  type PortraitStyle
+} from "@/lib/portraitWarp";
+import { applyRig, collectRig, type ModelPreset, type RigTargets } from "@/lib/rig";
+import { getMouthShape } from "@/lib/visemes";
 import styles from "./avatar-stage.module.css";
 
 type Props = {
-  avatar: AvatarPreset;
-  emotion: EmotionPreset;
+  avatar: AvatarPreset | PortraitPreset | ModelPreset;
   lipState: LipState;
   isSpeaking: boolean;
   seed: number;
-  onCanvasReady: (canvas: HTMLCanvasElement | null) => void;
+  portraitStyle?: PortraitStyle;
+  /** A dialogue cast to show instead of `avatar`, posed by `castStates`. */
+  cast?: Extract<AvatarPreset, { type: "3d" }>[] | null;
+  castStates?: LipState[] | null;
+  camera?: CameraPlan;
+  /** The playhead and take length the preview frames its camera shots by. */
+  playbackTime?: number;
+  duration?: number;
+  background?: StageBackground;
+  /** Object URL of the image or video an image/video background shows. */
+  backdropUrl?: string | null;
+  onRendererReady: (renderer: StageRenderer | null) => void;
+  onRigLoaded?: (targets: RigTargets) => void;
+  onModelError?: (error: Error) => void;
 };
 
 export function AvatarStage({
   avatar,
-  emotion,
   lipState,
   isSpeaking,
   seed,
-  onCanvasReady
+  portraitStyle = "warp",
+  cast = null,
+  castStates = null,
+  camera = defaultCameraPlan,
+  playbackTime = 0,
+  duration = 0,
+  background = defaultBackground,
+  backdropUrl = null,
+  onRendererReady,
+  onRigLoaded,
+  onModelError
 }: Props) {
+  const lipRef = useRef(lipState);
+  lipRef.current = lipState;
+  const castLipRefs = useRef<MutableRefObject<LipState>[]>([]);
+  const castSize = cast && cast.length >= 2 ? cast.length : 0;
+  castLipRefs.current = Array.from({ length: castSize }, (_, index) => {
+    const ref = castLipRefs.current[index] ?? { current: lipState };
+    ref.current = castStates?.[index] ?? lipState;
+    return ref;
+  });
+  const positions = castPositions(castSize);
+  const clockRef = useRef<StageClock>({
+    time: 0,
+    duration: 0,
+    offline: false,
+    transparent: false
+  });
+  if (!clockRef.current.offline) {
+    clockRef.current = { time: playbackTime, duration, offline: false, transparent: false };
+  }
+  const backdropSeekRef = useRef<BackdropSeek | null>(null);
   const canvasKey = useMemo(
-    () => `${avatar.id}-${emotion.id}-${Math.round(seed * 1_000)}`,
-    [avatar.id, emotion.id, seed]
+    () => `${avatar.id}-${Math.round(seed * 1_000)}-${castSize}`,
+    [avatar.id, castSize, seed]
   );
 
   return (
@@ -37,81 +119,401 @@ export function AvatarStage({
         shadows
         dpr={[1, 1.8]}
         gl={{ preserveDrawingBuffer: true }}
-        camera={{ position: [0, 1.4, 4], fov: 35 }}
+        camera={{ position: shotFraming("medium", castSize).position, fov: 35 }}
         onCreated={({ gl }) => {
-          gl.setClearColor("#04050c");
           gl.domElement.style.outline = "none";
-          onCanvasReady(gl.domElement);
         }}
       >
+        <StageBridge
+          lipRef={lipRef}
+          castLipRefs={castLipRefs}
+          clockRef={clockRef}
+          backdropSeekRef={backdropSeekRef}
+          onReady={onRendererReady}
+        />
+        <StageBackdrop
+          background={background}
+          url={backdropUrl}
+          clockRef={clockRef}
+          seekRef={backdropSeekRef}
+        />
+        <CameraRig plan={camera} clockRef={clockRef} castSize={castSize} />
         <Suspense fallback={null}>
-          <StageLighting emotion={emotion} />
+          <StageLighting lipRef={lipRef} />
 
           <group position={[0, -0.8, 0]}>
-            {avatar.type === "image" ? (
-              <PortraitAvatar avatar={avatar} lipState={lipState} emotion={emotion} />
+            {(castSize > 0 || avatar.type === "3d") && background.kind !== "chroma" && (
+              <HiddenWhenTransparent clockRef={clockRef}>
+                <StageFloor width={castSize || 1} />
+              </HiddenWhenTransparent>
+            )}
+            {cast && castSize ? (
+              <>
+                {cast.map((member, index) => (
+                  <group
+                    key={index}
+                    position={[positions[index], 0, 0]}
+                    rotation={[0, -positions[index] * 0.08, 0]}
+                  >
+                    <HybridAvatar
+                      avatar={member}
+                      lipRef={castLipRefs.current[index]}
+                      seed={seed}
+                    />
+                  </group>
+                ))}
+              </>
+            ) : avatar.type === "image" ? (
+              <PortraitAvatar avatar={avatar} lipRef={lipRef} style={portraitStyle} />
+            ) : avatar.type === "model" ? (
+              <ModelBoundary key={avatar.url} onError={onModelError}>
+                <ModelAvatar avatar={avatar} lipRef={lipRef} onRigLoaded={onRigLoaded} />
+              </ModelBoundary>
             ) : (
-              <HybridAvatar avatar={avatar} lipState={lipState} emotion={emotion} seed={seed} />
+              <HybridAvatar avatar={avatar} lipRef={lipRef} seed={seed} />
             )}
           </group>
 
-          <Float speed={1.6} rotationIntensity={0.4} floatIntensity={0.8}>
-            <AmbientRibbon emotion={emotion} />
-          </Float>
+          {background.showRibbon && (
+            <HiddenWhenTransparent clockRef={clockRef}>
+              <Float speed={1.6} rotationIntensity={0.4} floatIntensity={0.8}>
+                <AmbientRibbon lipRef={lipRef} />
+              </Float>
+            </HiddenWhenTransparent>
+          )}
 
-          <OrbitControls enablePan={false} enableZoom={false} />
+          {!camera.locked && <OrbitControls enablePan={false} enableZoom={false} />}
           <Environment preset="night" />
         </Suspense>
       </Canvas>
 
-      <div className={styles.hud}>
-        <div className={styles.hudRow}>
-          <span className={styles.dot} data-active={isSpeaking} />
-          <strong>{isSpeaking ? "Synced Playback" : "Ready"}</strong>
-        </div>
-        <div className={styles.hudRow}>
-          <span className={styles.label}>Mouth</span>
-          <div className={styles.bar}>
-            <div
-              className={styles.barFill}
-              style={{ width: `${Math.round(lipState.mouthOpen * 100)}%` }}
-            />
+      {background.showHud && (
+        <div className={styles.hud}>
+          <div className={styles.hudRow}>
+            <span className={styles.dot} data-active={isSpeaking} />
+            <strong>{isSpeaking ? "Synced Playback" : "Ready"}</strong>
           </div>
-        </div>
-        <div className={styles.hudRow}>
-          <span className={styles.label}>Gesture</span>
-          <div className={styles.bar}>
-            <div
-              className={styles.barFill}
-              style={{ width: `${Math.round(lipState.handRight * 60)}%` }}
-            />
+          <div className={styles.hudRow}>
+            <span className={styles.label}>Mouth</span>
+            <div className={styles.bar}>
+              <div
+                className={styles.barFill}
+                style={{ width: `${Math.round(lipState.mouthOpen * 100)}%` }}
+              />
+            </div>
+          </div>
+          <div className={styles.hudRow}>
+            <span className={styles.label}>Gesture</span>
+            <div className={styles.bar}>
+              <div
+                className={styles.barFill}
+                style={{ width: `${Math.round(lipState.handRight * 60)}%` }}
+              />
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
 
-function StageLighting({ emotion }: { emotion: EmotionPreset }) {
-  const hue = new Vector3().setScalar(1).multiplyScalar(emotion.mouthEnergy).x;
+/**
+ * The take time the stage is drawn at: the preview playhead, or the frame an
+ * export is rendering. `transparent` exports drop the background and decor.
+ */
+type StageClock = {
+  time: number;
+  duration: number;
+  offline: boolean;
+  transparent: boolean;
+};
+
+/** Moves a video backdrop to the given take time and resolves once that frame is up. */
+type BackdropSeek = (time: number) => Promise<void>;
+
+/**
+ * Hands the engine a way to render the scene at an exact time with an exact
+ * lip state. Offline mode stops the render loop so only `renderFrame` draws,
+ * R3F's clock follows the timestamps passed to `advance`, and the drawing
+ * buffer is resized to the export resolution without touching the layout.
+ */
+function StageBridge({
+  lipRef,
+  castLipRefs,
+  clockRef,
+  backdropSeekRef,
+  onReady
+}: {
+  lipRef: MutableRefObject<LipState>;
+  castLipRefs: MutableRefObject<MutableRefObject<LipState>[]>;
+  clockRef: MutableRefObject<StageClock>;
+  backdropSeekRef: MutableRefObject<BackdropSeek | null>;
+  onReady: (renderer: StageRenderer | null) => void;
+}) {
+  const gl = useThree((state) => state.gl);
+  const camera = useThree((state) => state.camera) as PerspectiveCamera;
+  const advance = useThree((state) => state.advance);
+  const setFrameloop = useThree((state) => state.setFrameloop);
+  const get = useThree((state) => state.get);
+
+  useEffect(() => {
+    const applySize = (width: number, height: number, dpr: number) => {
+      gl.setPixelRatio(dpr);
+      gl.setSize(width, height, false);
+      camera.aspect = width / height;
+      camera.updateProjectionMatrix();
+    };
+
+    onReady({
+      canvas: gl.domElement,
+      renderFrame: async (time, lipState, castStates) => {
+        clockRef.current.time = time;
+        await backdropSeekRef.current?.(time);
+        // Pose only after the seek: a re-render while it is pending rewrites these refs.
+        lipRef.current = lipState;
+        castLipRefs.current.forEach((ref, index) => {
+          ref.current = castStates?.[index] ?? lipState;
+        });
+        advance(time);
+      },
+      setOffline: (offline, take) => {
+        clockRef.current = {
+          ...clockRef.current,
+          duration: take?.duration ?? 0,
+          offline,
+          transparent: offline && Boolean(take?.transparent)
+        };
+        if (offline && take) {
+          applySize(take.width, take.height, 1);
+        } else if (!offline) {
+          const { size: viewSize, viewport } = get();
+          applySize(viewSize.width, viewSize.height, viewport.dpr);
+        }
+        setFrameloop(offline ? "never" : "always");
+      }
+    });
+    return () => onReady(null);
+  }, [
+    advance,
+    backdropSeekRef,
+    camera,
+    castLipRefs,
+    clockRef,
+    get,
+    gl,
+    lipRef,
+    onReady,
+    setFrameloop
+  ]);
+
+  return null;
+}
+
+const mediaSize = (texture: Texture) => {
+  const media = texture.image as HTMLImageElement | HTMLVideoElement | undefined;
+  if (!media) return null;
+  const width = media instanceof HTMLVideoElement ? media.videoWidth : media.width;
+  const height = media instanceof HTMLVideoElement ? media.videoHeight : media.height;
+  return width && height ? { width, height } : null;
+};
+
+/**
+ * Paints the chosen background behind the scene, cropping images and videos
+ * to fill the frame. Transparent exports clear to zero alpha instead, and
+ * offline renders step a video backdrop to each frame's time.
+ */
+function StageBackdrop({
+  background,
+  url,
+  clockRef,
+  seekRef
+}: {
+  background: StageBackground;
+  url: string | null;
+  clockRef: MutableRefObject<StageClock>;
+  seekRef: MutableRefObject<BackdropSeek | null>;
+}) {
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const [texture, setTexture] = useState<Texture | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const { kind } = background;
+  const color = useMemo(
+    () => new Color(kind === "chroma" ? CHROMA_GREEN : background.color),
+    [background.color, kind]
+  );
+
+  useEffect(() => {
+    if (!url || (kind !== "image" && kind !== "video")) return;
+    let next: Texture;
+    if (kind === "video") {
+      const video = document.createElement("video");
+      Object.assign(video, { src: url, loop: true, muted: true, playsInline: true });
+      void video.play().catch(() => undefined);
+      videoRef.current = video;
+      next = new VideoTexture(video);
+    } else {
+      next = new TextureLoader().load(url);
+    }
+    next.colorSpace = SRGBColorSpace;
+    setTexture(next);
+    return () => {
+      videoRef.current?.pause();
+      videoRef.current = null;
+      next.dispose();
+      setTexture(null);
+    };
+  }, [kind, url]);
+
+  useEffect(() => {
+    seekRef.current = async (time) => {
+      const video = videoRef.current;
+      if (!video || !texture || !video.duration) return;
+      video.pause();
+      const seeked = new Promise((resolve) => {
+        video.addEventListener("seeked", resolve, { once: true });
+      });
+      video.currentTime = time % video.duration;
+      await seeked;
+      texture.needsUpdate = true;
+    };
+    return () => {
+      seekRef.current = null;
+    };
+  }, [seekRef, texture]);
+
+  useFrame(() => {
+    if (clockRef.current.transparent) {
+      scene.background = null;
+      gl.setClearColor(0x000000, 0);
+      return;
+    }
+    const video = videoRef.current;
+    if (video?.paused && !clockRef.current.offline) void video.play().catch(() => undefined);
+    const size = texture && mediaSize(texture);
+    if (!texture || !size) {
+      scene.background = color;
+      return;
+    }
+    const { width, height } = gl.domElement;
+    const fit = coverFit(size.width / size.height, width / height);
+    texture.repeat.set(fit.repeat[0], fit.repeat[1]);
+    texture.offset.set(fit.offset[0], fit.offset[1]);
+    scene.background = texture;
+  });
+
+  return null;
+}
+
+/** Hides its children in frames rendered for a transparent export. */
+function HiddenWhenTransparent({
+  clockRef,
+  children
+}: {
+  clockRef: MutableRefObject<StageClock>;
+  children: ReactNode;
+}) {
+  const groupRef = useRef<Group>(null);
+  useFrame(() => {
+    if (groupRef.current) groupRef.current.visible = !clockRef.current.transparent;
+  });
+  return <group ref={groupRef}>{children}</group>;
+}
+
+/**
+ * Points the camera along the shot track whenever it is locked or a take is
+ * being exported. An unlocked preview orbits freely, and gets its own angle
+ * back once an export is done with the camera.
+ */
+function CameraRig({
+  plan,
+  clockRef,
+  castSize
+}: {
+  plan: CameraPlan;
+  clockRef: MutableRefObject<StageClock>;
+  castSize: number;
+}) {
+  const camera = useThree((state) => state.camera) as PerspectiveCamera;
+  const freeViewRef = useRef<{ position: Vector3; fov: number } | null>(null);
+
+  useFrame(() => {
+    const { time, duration, offline } = clockRef.current;
+    if (!plan.locked && !offline) {
+      const freeView = freeViewRef.current;
+      if (freeView) {
+        camera.position.copy(freeView.position);
+        camera.fov = freeView.fov;
+        camera.updateProjectionMatrix();
+        freeViewRef.current = null;
+      }
+      return;
+    }
+    if (!plan.locked && !freeViewRef.current) {
+      freeViewRef.current = { position: camera.position.clone(), fov: camera.fov };
+    }
+    const framing = cameraAt(plan, time, duration, castSize);
+    camera.position.set(...framing.position);
+    camera.lookAt(...framing.target);
+    if (camera.fov !== framing.fov) {
+      camera.fov = framing.fov;
+      camera.updateProjectionMatrix();
+    }
+  });
+
+  return null;
+}
+
+/**
+ * Emotion colors are read from the blended mood every frame, so emotion
+ * changes fade across the scene instead of remounting it.
+ */
+const useMoodTint = (
+  lipRef: MutableRefObject<LipState>,
+  materialRef: RefObject<MeshStandardMaterial>,
+  channels: ("color" | "emissive")[]
+) => {
+  useFrame(() => {
+    const material = materialRef.current;
+    if (!material) return;
+    for (const channel of channels) {
+      material[channel].set(lipRef.current.mood.color);
+    }
+  });
+};
+
+const rimColor = (mouthEnergy: number) => `hsl(${(mouthEnergy * 180 + 180) % 360}, 70%, 65%)`;
+
+function StageLighting({ lipRef }: { lipRef: MutableRefObject<LipState> }) {
+  const keyRef = useRef<SpotLight>(null);
+  const rimRef = useRef<SpotLight>(null);
+  const { mood } = lipRef.current;
+
+  useFrame(() => {
+    const { mood: current } = lipRef.current;
+    keyRef.current?.color.set(current.color);
+    rimRef.current?.color.set(rimColor(current.mouthEnergy));
+  });
+
   return (
     <>
-      <color attach="background" args={["#04050c"]} />
       <hemisphereLight args={["#7da6ff", "#090d21", 0.55]} />
       <spotLight
+        ref={keyRef}
         position={[3, 6, 2]}
         angle={0.5}
         penumbra={0.6}
         intensity={1.4}
-        color={emotion.color}
+        color={mood.color}
         castShadow
       />
       <spotLight
+        ref={rimRef}
         position={[-3, 4, 0]}
         angle={0.4}
         penumbra={0.45}
         intensity={1.05}
-        color={`hsl(${(hue * 180 + 180) % 360}, 70%, 65%)`}
+        color={rimColor(mood.mouthEnergy)}
       />
       <pointLight position={[0, 2, 3]} intensity={0.45} />
       <pointLight position={[0, -2, -4]} intensity={0.35} />
@@ -119,46 +521,174 @@ function StageLighting({ emotion }: { emotion: EmotionPreset }) {
   );
 }
 
+const PORTRAIT_WIDTH = 1.6;
+const PORTRAIT_HEIGHT = 2.2;
+const PORTRAIT_CENTER_Y = 1.35;
+
+const toPortrait = (point: LandmarkPoint) => ({
+  x: (point.x - 0.5) * PORTRAIT_WIDTH,
+  y: PORTRAIT_CENTER_Y + (0.5 - point.y) * PORTRAIT_HEIGHT
+});
+
+const span = (from: LandmarkPoint, to: LandmarkPoint) => {
+  const a = toPortrait(from);
+  const b = toPortrait(to);
+  return {
+    x: (a.x + b.x) / 2,
+    y: (a.y + b.y) / 2,
+    length: Math.hypot(b.x - a.x, b.y - a.y),
+    angle: Math.atan2(b.y - a.y, b.x - a.x)
+  };
+};
+
+const defaultEyeSpan = span(defaultLandmarks.leftEye, defaultLandmarks.rightEye).length;
+
+/**
+ * Turns calibrated landmarks into overlay placement on the portrait plane.
+ * Motion ranges scale with the eye distance so small faces move less.
+ */
+const portraitLayout = (landmarks: FaceLandmarks) => {
+  const mouth = span(landmarks.mouthLeft, landmarks.mouthRight);
+  const brow = span(landmarks.leftBrow, landmarks.rightBrow);
+  const jaw = toPortrait(landmarks.jaw);
+  const eyes = span(landmarks.leftEye, landmarks.rightEye);
+  return {
+    mouth,
+    brow,
+    eyes: [toPortrait(landmarks.leftEye), toPortrait(landmarks.rightEye)],
+    eyeAngle: eyes.angle,
+    eyeWidth: eyes.length * 0.45,
+    jawDrop: Math.max(mouth.y - jaw.y, 0.05),
+    scale: eyes.length / defaultEyeSpan
+  };
+};
+
+/**
+ * In "warp" mode the photo itself deforms around the calibrated mouth; the
+ * flat mouth overlay is kept as the cheap fallback for low-end machines.
+ */
 function PortraitAvatar({
   avatar,
-  lipState,
-  emotion
+  lipRef,
+  style
 }: {
-  avatar: Extract<AvatarPreset, { type: "image" }>;
-  lipState: LipState;
-  emotion: EmotionPreset;
+  avatar: PortraitPreset;
+  lipRef: MutableRefObject<LipState>;
+  style: PortraitStyle;
 }) {
   const texture = useLoader(TextureLoader, avatar.image);
   texture.colorSpace = SRGBColorSpace;
+  const groupRef = useRef<Group>(null);
+  const photoRef = useRef<Mesh>(null);
   const mouthRef = useRef<Mesh>(null);
   const browRef = useRef<Mesh>(null);
+  const lidRefs = useRef<(Mesh | null)[]>([]);
+  const mouthMaterialRef = useRef<MeshStandardMaterial>(null);
+  useMoodTint(lipRef, mouthMaterialRef, ["color"]);
+  const landmarks = avatar.landmarks ?? defaultLandmarks;
+  const layout = useMemo(() => portraitLayout(landmarks), [landmarks]);
+  const { mouth, brow } = layout;
+  const eyeHeight = layout.eyeWidth * EYE_ASPECT;
+  const lidColor = useMemo(
+    () => (style === "overlay" ? sampleLidColor(texture.image, landmarks) : null),
+    [landmarks, style, texture]
+  );
+  const warpUniforms = useMemo(createWarpUniforms, []);
+  const onBeforeCompile = useMemo(() => applyPortraitWarp(warpUniforms), [warpUniforms]);
+  useEffect(() => {
+    setWarpGeometry(warpUniforms, {
+      planeWidth: PORTRAIT_WIDTH,
+      planeHeight: PORTRAIT_HEIGHT,
+      mouthX: mouth.x,
+      mouthY: mouth.y - PORTRAIT_CENTER_Y,
+      mouthAngle: mouth.angle,
+      mouthWidth: mouth.length,
+      jawDepth: layout.jawDrop,
+      eyeLeft: [layout.eyes[0].x, layout.eyes[0].y - PORTRAIT_CENTER_Y],
+      eyeRight: [layout.eyes[1].x, layout.eyes[1].y - PORTRAIT_CENTER_Y],
+      eyeAngle: layout.eyeAngle,
+      eyeWidth: layout.eyeWidth
+    });
+  }, [layout, mouth, warpUniforms]);
 
   useFrame(() => {
+    const lipState = lipRef.current;
+    if (style === "warp") {
+      const shape = getMouthShape(lipState.visemes);
+      setWarpPose(warpUniforms, {
+        open: lipState.mouthOpen,
+        width: lipState.mouthWidth,
+        round: shape.round,
+        closure: shape.closure,
+        blink: lipState.blink,
+        gazeX: lipState.gazeX,
+        gazeY: lipState.gazeY
+      });
+    }
+    if (groupRef.current) {
+      // The overlay can't move the irises, so the head drifts with the gaze instead.
+      const follow = style === "overlay" ? 0.06 : 0;
+      groupRef.current.rotation.set(
+        lipState.headPitch * 0.4 - lipState.gazeY * follow,
+        lipState.headYaw * 0.4 + lipState.gazeX * follow,
+        lipState.headRoll * 0.3
+      );
+    }
+    lidRefs.current.forEach((lid, index) => {
+      if (!lid) return;
+      const closed = MathUtils.clamp(lipState.blink, 0, 1);
+      lid.visible = closed > 0.02;
+      lid.scale.y = Math.max(closed, 0.01);
+      lid.position.y = layout.eyes[index].y + eyeHeight * (1 - closed);
+    });
+    if (photoRef.current) {
+      photoRef.current.position.y = PORTRAIT_CENTER_Y + lipState.bodySway * 0.05;
+    }
     if (mouthRef.current) {
-      mouthRef.current.scale.set(1 + lipState.mouthWidth * 0.6, 0.15 + lipState.mouthOpen * 0.7, 1);
-      mouthRef.current.position.y = -0.14 - lipState.mouthOpen * 0.12;
+      const shape = getMouthShape(lipState.visemes);
+      const lipSeal = 1 - shape.closure * 0.85;
+      mouthRef.current.scale.set(
+        (1 + lipState.mouthWidth * 0.6) * (1 - shape.round * 0.35),
+        (0.15 + lipState.mouthOpen * 0.7) * lipSeal,
+        1
+      );
+      mouthRef.current.position.y = mouth.y - lipState.mouthOpen * layout.jawDrop * 0.5 * lipSeal;
     }
     if (browRef.current) {
-      browRef.current.position.y = 0.24 + lipState.eyebrowLift * 0.12;
-      browRef.current.rotation.z = -lipState.headYaw * 0.15;
+      browRef.current.position.y = brow.y + lipState.eyebrowLift * 0.12 * layout.scale;
+      browRef.current.rotation.z = brow.angle - lipState.headYaw * 0.15;
+      browRef.current.scale.x = 1.1 + lipState.mouthWidth * 0.1;
     }
   });
 
   return (
-    <group rotation={[lipState.headPitch * 0.4, lipState.headYaw * 0.4, lipState.headRoll * 0.3]}>
-      <mesh position={[0, 1.35 + lipState.bodySway * 0.05, 0]} receiveShadow>
-        <planeGeometry args={[1.6, 2.2, 1, 1]} />
-        <meshStandardMaterial map={texture} roughness={0.7} metalness={0.05} />
+    <group ref={groupRef}>
+      <mesh ref={photoRef} position={[0, PORTRAIT_CENTER_Y, 0]} receiveShadow>
+        <planeGeometry args={[PORTRAIT_WIDTH, PORTRAIT_HEIGHT, 1, 1]} />
+        {style === "warp" ? (
+          <meshStandardMaterial
+            key="warp"
+            map={texture}
+            roughness={0.7}
+            metalness={0.05}
+            onBeforeCompile={onBeforeCompile}
+            customProgramCacheKey={() => "portrait-warp"}
+          />
+        ) : (
+          <meshStandardMaterial key="flat" map={texture} roughness={0.7} metalness={0.05} />
+        )}
       </mesh>
       <mesh
         ref={mouthRef}
-        position={[0, 1.02, 0.01]}
+        visible={style === "overlay"}
+        position={[mouth.x, mouth.y, 0.01]}
         scale={[1, 0.2, 1]}
-        rotation={[0.02, 0, 0]}
+        rotation={[0.02, 0, mouth.angle]}
       >
-        <planeGeometry args={[0.35, 0.14]} />
+        <planeGeometry args={[mouth.length, mouth.length * 0.4]} />
         <meshStandardMaterial
-          color={emotion.color}
+          ref={mouthMaterialRef}
+          color={lipRef.current.mood.color}
           opacity={0.65}
           transparent
           roughness={0.3}
@@ -167,33 +697,50 @@ function PortraitAvatar({
       </mesh>
       <mesh
         ref={browRef}
-        position={[0, 1.24, 0.05]}
-        scale={[1.1 + lipState.mouthWidth * 0.1, 0.1, 1]}
+        position={[brow.x, brow.y, 0.05]}
+        scale={[1.1, 0.1, 1]}
       >
-        <planeGeometry args={[0.8, 0.09]} />
+        <planeGeometry args={[(brow.length * 2) / 1.1, 0.09 * layout.scale]} />
         <meshStandardMaterial color="#05060d" opacity={0.35} transparent />
       </mesh>
+      {lidColor &&
+        layout.eyes.map((eye, index) => (
+          <mesh
+            key={index}
+            ref={(lid) => {
+              lidRefs.current[index] = lid;
+            }}
+            position={[eye.x, eye.y + eyeHeight, 0.02]}
+            rotation={[0, 0, layout.eyeAngle]}
+            visible={false}
+          >
+            <planeGeometry args={[layout.eyeWidth * 1.1, eyeHeight * 2.2]} />
+            <meshStandardMaterial color={lidColor} roughness={0.8} />
+          </mesh>
+        ))}
     </group>
   );
 }
 
 function HybridAvatar({
   avatar,
-  lipState,
-  emotion,
+  lipRef,
   seed
 }: {
   avatar: Extract<AvatarPreset, { type: "3d" }>;
-  lipState: LipState;
-  emotion: EmotionPreset;
+  lipRef: MutableRefObject<LipState>;
   seed: number;
 }) {
   const headRef = useRef<Group>(null);
   const mouthRef = useRef<Mesh>(null);
-  const leftHandRef = useRef<Group>(null);
-  const rightHandRef = useRef<Group>(null);
+  const mouthMaterialRef = useRef<MeshStandardMaterial>(null);
+  const collarMaterialRef = useRef<MeshStandardMaterial>(null);
+  const { mood } = lipRef.current;
+  useMoodTint(lipRef, mouthMaterialRef, ["color", "emissive"]);
+  useMoodTint(lipRef, collarMaterialRef, ["emissive"]);
 
-  useFrame((_, delta) => {
+  useFrame(() => {
+    const lipState = lipRef.current;
     if (headRef.current) {
       headRef.current.rotation.y = lipState.headYaw * 0.5;
       headRef.current.rotation.x = -lipState.headPitch * 0.5;
@@ -201,31 +748,18 @@ function HybridAvatar({
       headRef.current.position.y = 1.6 + lipState.bodySway * 0.06;
     }
     if (mouthRef.current) {
-      const base = 0.18 + lipState.mouthOpen * 0.5;
-      mouthRef.current.scale.set(0.7 + lipState.mouthWidth * 0.4, base, 0.3);
-    }
-    if (leftHandRef.current) {
-      leftHandRef.current.rotation.x = -0.3 + lipState.handLeft * 0.6;
-      leftHandRef.current.rotation.z = 0.6 + lipState.handLeft * 0.4;
-    }
-    if (rightHandRef.current) {
-      rightHandRef.current.rotation.x = -0.25 + lipState.handRight * 0.6;
-      rightHandRef.current.rotation.z = -0.6 - lipState.handRight * 0.4;
+      const shape = getMouthShape(lipState.visemes);
+      const base = (0.18 + lipState.mouthOpen * 0.5) * (1 - shape.closure * 0.8);
+      mouthRef.current.scale.set(
+        (0.7 + lipState.mouthWidth * 0.4) * (1 - shape.round * 0.4),
+        base,
+        0.3 + shape.round * 0.25
+      );
     }
   });
 
   return (
     <group>
-      <mesh receiveShadow castShadow position={[0, -0.01, 0]} rotation={[-Math.PI / 2, 0, 0]}>
-        <circleGeometry args={[4, 48]} />
-        <meshStandardMaterial
-          color="#0a0f21"
-          roughness={0.9}
-          metalness={0.1}
-          opacity={0.65}
-          transparent
-        />
-      </mesh>
 
       <group ref={headRef}>
         <mesh castShadow position={[0, 0, 0]} scale={[1.1, 1.35, 1.1]}>
@@ -240,8 +774,8 @@ function HybridAvatar({
           </mesh>
         </group>
 
-        <Eye position={[-0.42, 0.25 + lipState.eyebrowLift * 0.1, 0.58]} gazeX={lipState.gazeX} gazeY={lipState.gazeY} />
-        <Eye position={[0.42, 0.25 + lipState.eyebrowLift * 0.1, 0.58]} gazeX={lipState.gazeX} gazeY={lipState.gazeY} />
+        <Eye position={[-0.42, 0.25, 0.58]} lidColor={avatar.palette.skin} lipRef={lipRef} />
+        <Eye position={[0.42, 0.25, 0.58]} lidColor={avatar.palette.skin} lipRef={lipRef} />
 
         <mesh
           ref={mouthRef}
@@ -251,8 +785,9 @@ function HybridAvatar({
         >
           <capsuleGeometry args={[0.25, 0.15, 8, 16]} />
           <meshStandardMaterial
-            color={emotion.color}
-            emissive={emotion.color}
+            ref={mouthMaterialRef}
+            color={mood.color}
+            emissive={mood.color}
             emissiveIntensity={0.24}
             metalness={0.2}
             roughness={0.2}
@@ -262,8 +797,9 @@ function HybridAvatar({
         <mesh position={[0, -0.02, 0.65]}>
           <torusGeometry args={[0.55, 0.08, 16, 60]} />
           <meshStandardMaterial
+            ref={collarMaterialRef}
             color={avatar.palette.outfit}
-            emissive={emotion.color}
+            emissive={mood.color}
             emissiveIntensity={0.18}
             roughness={0.4}
           />
@@ -274,12 +810,92 @@ function HybridAvatar({
         <Torso color={avatar.palette.outfit} />
       </group>
 
-      <group ref={leftHandRef} position={[-1, 0.75, 0.3]}>
-        <Hand color={avatar.palette.outfit} flipped />
-      </group>
-      <group ref={rightHandRef} position={[1, 0.75, 0.3]}>
-        <Hand color={avatar.palette.outfit} />
-      </group>
+      <Arm side="left" color={avatar.palette.outfit} skin={avatar.palette.skin} lipRef={lipRef} />
+      <Arm side="right" color={avatar.palette.outfit} skin={avatar.palette.skin} lipRef={lipRef} />
+    </group>
+  );
+}
+
+/** `width` stretches the floor sideways to fit that many avatars standing in a row. */
+function StageFloor({ width = 1 }: { width?: number }) {
+  return (
+    <mesh
+      receiveShadow
+      castShadow
+      position={[0, -0.01, 0]}
+      rotation={[-Math.PI / 2, 0, 0]}
+      scale={[1 + (width - 1) * 0.65, 1, 1]}
+    >
+      <circleGeometry args={[4, 48]} />
+      <meshStandardMaterial
+        color="#0a0f21"
+        roughness={0.9}
+        metalness={0.1}
+        opacity={0.65}
+        transparent
+      />
+    </mesh>
+  );
+}
+
+const MODEL_HEIGHT = 2.3;
+
+/** Keeps a broken model file from taking the whole stage down with it. */
+class ModelBoundary extends Component<
+  { children: ReactNode; onError?: (error: Error) => void },
+  { failed: boolean }
+> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onError?.(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+/**
+ * A user-supplied glTF/GLB/VRM character, scaled to stand where the built-in
+ * avatars do and driven through its rig mapping.
+ */
+function ModelAvatar({
+  avatar,
+  lipRef,
+  onRigLoaded
+}: {
+  avatar: ModelPreset;
+  lipRef: MutableRefObject<LipState>;
+  onRigLoaded?: (targets: RigTargets) => void;
+}) {
+  const model = useGLTF(avatar.url);
+  const rig = useMemo(() => collectRig(model), [model]);
+  const fit = useMemo(() => {
+    const box = new Box3().setFromObject(model.scene);
+    const size = box.getSize(new Vector3());
+    const center = box.getCenter(new Vector3());
+    return {
+      scale: MODEL_HEIGHT / Math.max(size.y, 1e-3),
+      offset: [-center.x, -box.min.y, -center.z] as [number, number, number]
+    };
+  }, [model]);
+
+  useEffect(() => {
+    onRigLoaded?.(rig.targets);
+  }, [onRigLoaded, rig]);
+
+  useFrame(() => {
+    applyRig(rig, avatar.mapping, lipRef.current);
+  });
+
+  return (
+    <group rotation={[0, rig.facesBackward ? Math.PI : 0, 0]} scale={fit.scale}>
+      <primitive object={model.scene} position={fit.offset} />
     </group>
   );
 }
@@ -305,39 +921,133 @@ function Torso({ color }: { color: string }) {
   );
 }
 
-function Hand({ color, flipped }: { color: string; flipped?: boolean }) {
+const UPPER_ARM = 0.6;
+const FOREARM = 0.55;
+const PALM = 0.22;
+
+/** Index to pinky across the palm, then the thumb, in the order `fingers` counts them. */
+const FINGERS = [
+  { position: [0, -PALM, 0.07], length: 0.13, splay: 0 },
+  { position: [0, -PALM, 0.025], length: 0.15, splay: 0 },
+  { position: [0, -PALM, -0.02], length: 0.14, splay: 0 },
+  { position: [0, -PALM, -0.065], length: 0.11, splay: 0 },
+  { position: [0, -0.06, 0.1], length: 0.1, splay: -0.6 }
+] as const;
+
+/**
+ * Shoulder, elbow and wrist joints driven by the arm pose in `lipState.arms`.
+ * At rest the palm faces the body; fingers curl toward it as they fold away.
+ */
+function Arm({
+  side,
+  color,
+  skin,
+  lipRef
+}: {
+  side: "left" | "right";
+  color: string;
+  skin: string;
+  lipRef: MutableRefObject<LipState>;
+}) {
+  const sign = side === "left" ? -1 : 1;
+  const shoulderRef = useRef<Group>(null);
+  const elbowRef = useRef<Group>(null);
+  const wristRef = useRef<Group>(null);
+  const fingerRefs = useRef<(Group | null)[]>([]);
+
+  useFrame(() => {
+    const arm = lipRef.current.arms[side];
+    if (shoulderRef.current) {
+      shoulderRef.current.rotation.x = -arm.raise * (Math.PI / 2);
+      shoulderRef.current.rotation.z = sign * (0.1 + arm.spread * (Math.PI / 2));
+    }
+    if (elbowRef.current) {
+      elbowRef.current.rotation.x = -MathUtils.clamp(arm.elbow, 0, 1.6) * 1.6;
+    }
+    if (wristRef.current) {
+      wristRef.current.rotation.y = sign * arm.wrist * (Math.PI / 2);
+    }
+    fingerRefs.current.forEach((finger, index) => {
+      if (!finger) return;
+      const folded = 1 - MathUtils.clamp(arm.fingers - index, 0, 1);
+      finger.rotation.z = -sign * (folded * 1.5 + FINGERS[index].splay * (1 - folded));
+    });
+  });
+
   return (
-    <group rotation={[0, flipped ? Math.PI / 2 : -Math.PI / 2, 0]}>
-      <mesh castShadow scale={[0.35, 0.9, 0.35]}>
-        <boxGeometry args={[1, 1, 1]} />
+    <group ref={shoulderRef} position={[sign * 0.85, 1, 0.05]}>
+      <mesh castShadow position={[0, -UPPER_ARM / 2, 0]}>
+        <capsuleGeometry args={[0.14, UPPER_ARM - 0.12, 8, 16]} />
         <meshStandardMaterial color={color} roughness={0.4} metalness={0.25} />
       </mesh>
-      <mesh castShadow position={[0, 0.7, 0]} scale={[0.3, 0.5, 0.3]}>
-        <capsuleGeometry args={[0.3, 0.35, 8, 16]} />
-        <meshStandardMaterial color="#f9dcc8" roughness={0.3} metalness={0.1} />
-      </mesh>
+      <group ref={elbowRef} position={[0, -UPPER_ARM, 0]}>
+        <mesh castShadow position={[0, -FOREARM / 2, 0]}>
+          <capsuleGeometry args={[0.12, FOREARM - 0.12, 8, 16]} />
+          <meshStandardMaterial color={color} roughness={0.4} metalness={0.25} />
+        </mesh>
+        <group ref={wristRef} position={[0, -FOREARM, 0]}>
+          <mesh castShadow position={[0, -PALM / 2, 0]} scale={[0.07, PALM, 0.19]}>
+            <boxGeometry args={[1, 1, 1]} />
+            <meshStandardMaterial color={skin} roughness={0.3} metalness={0.1} />
+          </mesh>
+          {FINGERS.map((finger, index) => (
+            <group
+              key={index}
+              ref={(node) => {
+                fingerRefs.current[index] = node;
+              }}
+              position={[...finger.position]}
+            >
+              <mesh castShadow position={[0, -finger.length / 2, 0]}>
+                <capsuleGeometry args={[0.022, finger.length - 0.04, 4, 8]} />
+                <meshStandardMaterial color={skin} roughness={0.3} metalness={0.1} />
+              </mesh>
+            </group>
+          ))}
+        </group>
+      </group>
     </group>
   );
 }
 
+const LID_OPEN = -1.1;
+const LID_CLOSED = 1.45;
+
+/**
+ * The upper lid is a skin-colored half shell that rests folded back over the
+ * top of the eye and swings down over the front as `blink` goes to 1.
+ */
 function Eye({
   position,
-  gazeX,
-  gazeY
+  lidColor,
+  lipRef
 }: {
   position: [number, number, number];
-  gazeX: number;
-  gazeY: number;
+  lidColor: string;
+  lipRef: MutableRefObject<LipState>;
 }) {
+  const eyeRef = useRef<Group>(null);
   const pupilRef = useRef<Mesh>(null);
+  const lidRef = useRef<Mesh>(null);
   useFrame(() => {
+    const { blink, eyebrowLift, gazeX, gazeY } = lipRef.current;
+    if (lidRef.current) {
+      lidRef.current.rotation.x = MathUtils.lerp(
+        LID_OPEN,
+        LID_CLOSED,
+        MathUtils.clamp(blink, 0, 1)
+      );
+    }
+    if (eyeRef.current) {
+      eyeRef.current.position.y = position[1] + eyebrowLift * 0.1;
+    }
     if (pupilRef.current) {
       pupilRef.current.position.x = MathUtils.clamp(gazeX, -0.4, 0.4) * 0.12;
       pupilRef.current.position.y = MathUtils.clamp(gazeY, -0.4, 0.4) * 0.12;
     }
   });
   return (
-    <group position={position}>
+    <group ref={eyeRef} position={position}>
       <mesh castShadow>
         <sphereGeometry args={[0.18, 24, 24]} />
         <meshStandardMaterial color="#ffffff" roughness={0.2} metalness={0.05} />
@@ -346,18 +1056,27 @@ function Eye({
         <sphereGeometry args={[0.07, 24, 24]} />
         <meshStandardMaterial color="#222" metalness={0.3} roughness={0.4} />
       </mesh>
+      <mesh ref={lidRef} rotation={[LID_OPEN, 0, 0]}>
+        <sphereGeometry args={[0.23, 24, 12, 0, Math.PI * 2, 0, Math.PI / 2]} />
+        <meshStandardMaterial color={lidColor} side={DoubleSide} roughness={0.45} />
+      </mesh>
     </group>
   );
 }
 
-function AmbientRibbon({ emotion }: { emotion: EmotionPreset }) {
+function AmbientRibbon({ lipRef }: { lipRef: MutableRefObject<LipState> }) {
+  const materialRef = useRef<MeshStandardMaterial>(null);
+  const { mood } = lipRef.current;
+  useMoodTint(lipRef, materialRef, ["color", "emissive"]);
+
   return (
     <group>
       <mesh position={[0, 2, -2]} rotation={[-0.8, 0.4, 0.2]}>
         <torusKnotGeometry args={[1.8, 0.08, 220, 12, 2, 3]} />
         <meshStandardMaterial
-          color={emotion.color}
-          emissive={emotion.color}
+          ref={materialRef}
+          color={mood.color}
+          emissive={mood.color}
           emissiveIntensity={0.6}
           transparent
           opacity={0.25}
@@ -5,52 +5,203 @@ import Image from "next/image";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import { AvatarStage } from "./AvatarStage";
+import { BackgroundPanel } from "./BackgroundPanel";
+import { CameraPanel } from "./CameraPanel";
+import { CastPanel } from "./CastPanel";
+import { EmotionEditor } from "./EmotionEditor";
+import { EmotionKeyframes } from "./EmotionKeyframes";
 import { EmotionSelector } from "./EmotionSelector";
-import { emotionPresets } from "@/lib/emotions";
+import { ExportDialog } from "./ExportDialog";
+import { PortraitCalibrator } from "./PortraitCalibrator";
+import { ProjectPanel } from "./ProjectPanel";
+import { RigMappingEditor } from "./RigMappingEditor";
+import { ScriptEditor } from "./ScriptEditor";
+import { SeedField } from "./SeedField";
+import { TimelineBar } from "./TimelineBar";
+import {
+  parseTrackFile,
+  serializeTrack,
+  trackFormats,
+  type AnimationTrack,
+  type TrackFormat
+} from "@/lib/animationTrack";
+import { backdropKind, defaultBackground, type StageBackground } from "@/lib/background";
+import { defaultCameraPlan, type CameraPlan } from "@/lib/camera";
+import { captionFormats, serializeCaptions, type CaptionFormat } from "@/lib/captions";
+import { compileDialogue, type CastMember } from "@/lib/dialogue";
+import { downloadBlob } from "@/lib/download";
+import { createId } from "@/lib/id";
+import type { FaceLandmarks, PortraitPreset } from "@/lib/landmarks";
+import { randomSeed } from "@/lib/math";
+import { createSyntheticMicStream, requestMicStream } from "@/lib/microphone";
+import { emotionPresets, type EmotionPreset } from "@/lib/emotions";
+import type { EmotionKeyframe } from "@/lib/motion";
 import { avatarPresets, type AvatarPreset } from "@/lib/presets";
+import { packProject, projectName, unpackProject, type StudioProject } from "@/lib/project";
+import { loadProject } from "@/lib/projectStore";
+import {
+  guessRigMapping,
+  MODEL_EXTENSIONS,
+  type ModelPreset,
+  type RigMapping,
+  type RigTargets
+} from "@/lib/rig";
+import { defaultPortraitStyle, type PortraitStyle } from "@/lib/portraitWarp";
+import { parseScript } from "@/lib/scriptMarkup";
+import { createHttpSpeechBackend, type VoiceEngine } from "@/lib/speech";
+import { defaultExportSettings, type ExportSettings } from "@/lib/videoExport";
+import { useCustomEmotions } from "@/hooks/useCustomEmotions";
 import { useLipSyncEngine, type VoiceMode } from "@/hooks/useLipSyncEngine";
+import { useProjectAutosave } from "@/hooks/useProjectAutosave";
 import styles from "./studio.module.css";
 
+// Lets automated tests and mic-less demo machines drive the mic mode.
+const micStreamFactory =
+  process.env.NEXT_PUBLIC_FAKE_MIC === "1" ? createSyntheticMicStream : requestMicStream;
+
+const voiceModeLabels: Record<VoiceMode, string> = {
+  text: "Text → Speech",
+  audio: "Audio Drive",
+  mic: "Live Mic"
+};
+
+/** Dialogue casts are built from the 3D presets, which can share one stage. */
+const castAvatars = avatarPresets.filter(
+  (preset): preset is Extract<AvatarPreset, { type: "3d" }> => preset.type === "3d"
+);
+
 export function AvatarStudio() {
   const [voiceMode, setVoiceMode] = useState<VoiceMode>("text");
+  const [voiceEngine, setVoiceEngine] = useState<VoiceEngine>("browser");
   const [script, setScript] = useState("Hey there! Ready to create some magic?");
   const [emotion, setEmotion] = useState(emotionPresets[0]);
+  const [emotionDraft, setEmotionDraft] = useState<EmotionPreset | null>(null);
+  const [emotionKeyframes, setEmotionKeyframes] = useState<EmotionKeyframe[]>([]);
+  const [transitionTime, setTransitionTime] = useState(0.6);
+  const [autoGestures, setAutoGestures] = useState(true);
+  const [cast, setCast] = useState<CastMember[]>([]);
+  const [camera, setCamera] = useState<CameraPlan>(defaultCameraPlan);
+  const [background, setBackground] = useState<StageBackground>(defaultBackground);
+  const [backdropFile, setBackdropFile] = useState<File | null>(null);
+  const [backdropUrl, setBackdropUrl] = useState<string | null>(null);
   const [selectedPreset, setSelectedPreset] = useState<AvatarPreset>(
     avatarPresets[0]
   );
   const [customImage, setCustomImage] = useState<string | null>(null);
+  const [portraitFile, setPortraitFile] = useState<Blob | null>(null);
+  const [portraitLandmarks, setPortraitLandmarks] = useState<FaceLandmarks | null>(null);
+  const [calibrating, setCalibrating] = useState(false);
+  const [portraitStyle, setPortraitStyle] = useState<PortraitStyle>("warp");
+  const [modelFile, setModelFile] = useState<File | null>(null);
+  const [modelUrl, setModelUrl] = useState<string | null>(null);
+  const [rigMapping, setRigMapping] = useState<RigMapping | null>(null);
+  const [rigTargets, setRigTargets] = useState<RigTargets | null>(null);
+  const [mappingOpen, setMappingOpen] = useState(false);
+  const [modelError, setModelError] = useState<string | null>(null);
+  const [animationTrack, setAnimationTrack] = useState<AnimationTrack | null>(null);
+  const [trackName, setTrackName] = useState<string | null>(null);
+  const [trackError, setTrackError] = useState<string | null>(null);
+  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [recordMic, setRecordMic] = useState(false);
   const [isPreviewing, setIsPreviewing] = useState(false);
-  const [seed, setSeed] = useState(() => Math.random());
+  const [seed, setSeed] = useState(0);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(defaultExportSettings);
+  const [exportError, setExportError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const audioInputRef = useRef<HTMLInputElement>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const restartOnSeedRef = useRef(false);
+  const trackInputRef = useRef<HTMLInputElement>(null);
 
-  const activeAvatar = useMemo<AvatarPreset>(() => {
+  const activeAvatar = useMemo<AvatarPreset | PortraitPreset | ModelPreset>(() => {
     if (customImage) {
       return {
         id: "custom-image",
         label: "Custom Portrait",
         type: "image",
-        image: customImage
+        image: customImage,
+        landmarks: portraitLandmarks ?? undefined
+      };
+    }
+    if (modelUrl && modelFile) {
+      return {
+        id: "custom-model",
+        label: modelFile.name,
+        type: "model",
+        url: modelUrl,
+        mapping: rigMapping ?? { morphs: {}, bones: {} }
       };
     }
     return selectedPreset;
-  }, [customImage, selectedPreset]);
+  }, [customImage, modelFile, modelUrl, portraitLandmarks, rigMapping, selectedPreset]);
+
+  const { customEmotions, saveEmotion, deleteEmotion, importEmotions, exportEmotions } =
+    useCustomEmotions();
+  const allEmotions = useMemo(() => [...emotionPresets, ...customEmotions], [customEmotions]);
+  const activeEmotion = emotionDraft ?? emotion;
+
+  const parsedScript = useMemo(() => parseScript(script, allEmotions), [allEmotions, script]);
+  const dialogue = useMemo(
+    () => compileDialogue(script, cast, allEmotions),
+    [allEmotions, cast, script]
+  );
+  const castPresets = useMemo(
+    () =>
+      dialogue?.scene.cast.map(
+        (member) =>
+          castAvatars.find((preset) => preset.id === member.avatarId) ?? castAvatars[0]
+      ) ?? null,
+    [dialogue]
+  );
+
+  const speechBackend = useMemo(
+    () => (voiceEngine === "http" ? createHttpSpeechBackend() : null),
+    [voiceEngine]
+  );
 
   const {
     startPreview,
     stopPreview,
+    pausePreview,
+    resumePreview,
+    seek,
     lipState,
+    castStates,
     isSpeaking,
+    isPaused,
+    playbackTime,
+    timeline,
     loadAudioFile,
+    clearAudioFile,
     ttsSupported,
+    micSupported,
+    micError,
+    isRecording,
+    micRecording,
+    textVoiceReady,
+    isSynthesizing,
     hasAudioLoaded,
+    isAnalyzingAudio,
     exportVideo,
-    registerStageCanvas
+    exportProgress,
+    captureTrack,
+    captureCaptions,
+    registerStageRenderer
   } = useLipSyncEngine({
     avatar: activeAvatar,
-    emotion,
-    script,
-    seed
+    emotion: activeEmotion,
+    script: dialogue?.script ?? parsedScript,
+    dialogue: dialogue?.scene ?? null,
+    seed,
+    speechBackend,
+    emotionKeyframes,
+    transitionTime,
+    autoGestures,
+    micStreamFactory,
+    animationTrack
   });
 
   useEffect(() => {
@@ -59,9 +210,9 @@ export function AvatarStudio() {
     }
   }, [isPreviewing, stopPreview]);
 
-  const handleImageUpload = useCallback((file: File | undefined) => {
-    if (!file) return;
-    const objectUrl = URL.createObjectURL(file);
+  const setPortrait = useCallback((file: Blob | null) => {
+    const objectUrl = file ? URL.createObjectURL(file) : null;
+    setPortraitFile(file);
     setCustomImage((prev) => {
       if (prev) {
         URL.revokeObjectURL(prev);
@@ -70,62 +221,377 @@ export function AvatarStudio() {
     });
   }, []);
 
+  const setModel = useCallback((file: File | null) => {
+    const objectUrl = file ? URL.createObjectURL(file) : null;
+    setModelFile(file);
+    setRigTargets(null);
+    setModelError(null);
+    setModelUrl((prev) => {
+      if (prev) {
+        URL.revokeObjectURL(prev);
+      }
+      return objectUrl;
+    });
+  }, []);
+
+  const setBackdrop = useCallback((file: File | null) => {
+    const objectUrl = file ? URL.createObjectURL(file) : null;
+    setBackdropFile(file);
+    setBackdropUrl((prev) => {
+      if (prev) {
+        URL.revokeObjectURL(prev);
+      }
+      return objectUrl;
+    });
+  }, []);
+
+  const handleBackdropUpload = useCallback(
+    (file: File) => {
+      const kind = backdropKind(file);
+      if (!kind) return;
+      setBackdrop(file);
+      setBackground((prev) => ({ ...prev, kind }));
+    },
+    [setBackdrop]
+  );
+
+  const onRigLoaded = useCallback((targets: RigTargets) => {
+    setRigTargets(targets);
+    setRigMapping((prev) => prev ?? guessRigMapping(targets));
+  }, []);
+
+  const onModelError = useCallback(
+    (error: Error) => {
+      console.error("Failed to load model", error);
+      setModel(null);
+      setModelError("Could not load that model. Use a self-contained .glb, .gltf or .vrm file.");
+    },
+    [setModel]
+  );
+
+  const handleModelUpload = useCallback(
+    (file: File | undefined) => {
+      if (!file) return;
+      setPortrait(null);
+      setPortraitLandmarks(null);
+      setRigMapping(null);
+      setModel(file);
+    },
+    [setModel, setPortrait]
+  );
+
+  const handleImageUpload = useCallback(
+    (file: File | undefined) => {
+      if (!file) return;
+      setModel(null);
+      setPortrait(file);
+      setPortraitLandmarks(null);
+      setCalibrating(true);
+    },
+    [setModel, setPortrait]
+  );
+
   const handleAudioUpload = useCallback(
     (file: File | undefined) => {
       if (!file) return;
+      setAudioFile(file);
       loadAudioFile(file);
     },
     [loadAudioFile]
   );
 
+  const project = useMemo<StudioProject>(
+    () => ({
+      name: projectName(script),
+      script,
+      voiceMode,
+      voiceEngine,
+      emotion,
+      emotionKeyframes,
+      transitionTime,
+      autoGestures,
+      cast,
+      camera,
+      background,
+      avatarId: activeAvatar.id,
+      portraitLandmarks,
+      rigMapping,
+      seed,
+      exportSettings,
+      portrait: portraitFile,
+      model: modelFile,
+      audio: audioFile,
+      backdrop: backdropFile
+    }),
+    [
+      activeAvatar.id,
+      audioFile,
+      autoGestures,
+      backdropFile,
+      background,
+      camera,
+      cast,
+      emotion,
+      emotionKeyframes,
+      exportSettings,
+      modelFile,
+      portraitFile,
+      portraitLandmarks,
+      rigMapping,
+      script,
+      seed,
+      transitionTime,
+      voiceEngine,
+      voiceMode
+    ]
+  );
+
+  const { recentProjects, lastSavedAt, removeProject } = useProjectAutosave(projectId, project);
+
+  const applyProject = useCallback(
+    (next: StudioProject, id: string) => {
+      setIsPreviewing(false);
+      setProjectId(id);
+      setProjectError(null);
+      setScript(next.script);
+      setVoiceMode(next.voiceMode);
+      setVoiceEngine(next.voiceEngine);
+      setEmotion(next.emotion);
+      setEmotionDraft(null);
+      setEmotionKeyframes(next.emotionKeyframes);
+      setTransitionTime(next.transitionTime);
+      setAutoGestures(next.autoGestures);
+      setCast(next.cast);
+      setCamera(next.camera);
+      setBackground(next.background);
+      setBackdrop(next.backdrop);
+      setSelectedPreset(
+        avatarPresets.find((preset) => preset.id === next.avatarId) ?? avatarPresets[0]
+      );
+      setPortrait(next.portrait);
+      setPortraitLandmarks(next.portraitLandmarks);
+      setModel(next.model);
+      setRigMapping(next.rigMapping);
+      setSeed(next.seed);
+      setExportSettings(next.exportSettings);
+      setAudioFile(next.audio);
+      if (next.audio) {
+        loadAudioFile(next.audio);
+      } else {
+        clearAudioFile();
+      }
+      const known = new Set(allEmotions.map((preset) => preset.id));
+      const used = [
+        next.emotion,
+        ...next.emotionKeyframes.map((item) => item.emotion),
+        ...next.cast.map((member) => member.emotion)
+      ];
+      for (const preset of used) {
+        if (!known.has(preset.id)) {
+          known.add(preset.id);
+          saveEmotion(preset);
+        }
+      }
+    },
+    [
+      allEmotions,
+      clearAudioFile,
+      loadAudioFile,
+      saveEmotion,
+      setBackdrop,
+      setModel,
+      setPortrait
+    ]
+  );
+
+  const onSaveProject = useCallback(async () => {
+    try {
+      const { blob, filename } = await packProject(project);
+      downloadBlob(blob, filename);
+    } catch (error) {
+      console.error("Failed to save project", error);
+      setProjectError("Could not package the project.");
+    }
+  }, [project]);
+
+  const onOpenProjectFile = useCallback(
+    async (file: File) => {
+      try {
+        applyProject(await unpackProject(file), createId());
+      } catch (error) {
+        setProjectError((error as Error).message);
+      }
+    },
+    [applyProject]
+  );
+
+  const onOpenRecentProject = useCallback(
+    async (id: string) => {
+      try {
+        const stored = await loadProject(id);
+        if (!stored) {
+          setProjectError("That project is no longer stored in this browser.");
+          removeProject(id);
+          return;
+        }
+        applyProject(stored, id);
+      } catch (error) {
+        setProjectError((error as Error).message);
+      }
+    },
+    [applyProject, removeProject]
+  );
+
+  useEffect(() => {
+    setPortraitStyle(defaultPortraitStyle());
+  }, []);
+
+  // Picked after mount so the server render and hydration agree.
+  useEffect(() => {
+    setProjectId((current) => current ?? createId());
+    setSeed(randomSeed());
+  }, []);
+
   useEffect(() => {
     return () => {
       setCustomImage((prev) => {
         if (prev) URL.revokeObjectURL(prev);
         return null;
       });
+      setModelUrl((prev) => {
+        if (prev) URL.revokeObjectURL(prev);
+        return null;
+      });
+      setBackdropUrl((prev) => {
+        if (prev) URL.revokeObjectURL(prev);
+        return null;
+      });
     };
   }, []);
 
-  const onRegenerate = useCallback(() => {
-    setSeed(Math.random());
-    if (isPreviewing) {
-      if (voiceMode === "text" && !ttsSupported) return;
-      if (voiceMode === "audio" && !hasAudioLoaded) return;
-      void startPreview({ forceRestart: true, sourceMode: voiceMode });
-    }
-  }, [hasAudioLoaded, isPreviewing, startPreview, ttsSupported, voiceMode]);
+  const canPreview =
+    (voiceMode === "text" && textVoiceReady) ||
+    (voiceMode === "audio" && hasAudioLoaded) ||
+    (voiceMode === "mic" && micSupported);
+
+  const onSeedChange = useCallback(
+    (next: number) => {
+      setSeed(next);
+      restartOnSeedRef.current = isPreviewing && canPreview && voiceMode !== "mic";
+    },
+    [canPreview, isPreviewing, voiceMode]
+  );
+
+  const onRegenerate = useCallback(() => onSeedChange(randomSeed()), [onSeedChange]);
+
+  // Restart after the render that carries the new seed, so the take uses it.
+  useEffect(() => {
+    if (!restartOnSeedRef.current) return;
+    restartOnSeedRef.current = false;
+    void startPreview({ forceRestart: true, sourceMode: voiceMode });
+  }, [seed, startPreview, voiceMode]);
 
   const onStartPreview = useCallback(() => {
-    if (voiceMode === "text" && !ttsSupported) {
-      return;
-    }
-    if (voiceMode === "audio" && !hasAudioLoaded) {
+    if (!canPreview) {
       return;
     }
     setIsPreviewing(true);
-    void startPreview({ sourceMode: voiceMode });
-  }, [hasAudioLoaded, startPreview, ttsSupported, voiceMode]);
+    void startPreview({ sourceMode: voiceMode, record: voiceMode === "mic" && recordMic });
+  }, [canPreview, recordMic, startPreview, voiceMode]);
+
+  const onUseMicRecording = useCallback(() => {
+    if (!micRecording) return;
+    handleAudioUpload(micRecording);
+    setVoiceMode("audio");
+  }, [handleAudioUpload, micRecording]);
 
   const onStopPreview = useCallback(() => {
     setIsPreviewing(false);
     stopPreview();
   }, [stopPreview]);
 
+  const onSaveEmotion = useCallback(
+    (preset: EmotionPreset) => {
+      saveEmotion(preset);
+      setEmotion(preset);
+    },
+    [saveEmotion]
+  );
+
+  const onDeleteEmotion = useCallback(
+    (id: string) => {
+      deleteEmotion(id);
+      setEmotion((prev) => (prev.id === id ? emotionPresets[0] : prev));
+    },
+    [deleteEmotion]
+  );
+
   const onExport = useCallback(async () => {
+    setExportError(null);
     try {
-      const blob = await exportVideo();
-      if (!blob) return;
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = "avatar-session.mp4";
-      link.click();
-      setTimeout(() => URL.revokeObjectURL(url), 5_000);
+      const result = await exportVideo({ sourceMode: voiceMode, settings: exportSettings });
+      if (!result) return;
+      downloadBlob(result.blob, result.filename);
+      setExportOpen(false);
     } catch (error) {
       console.error("Failed to export video", error);
+      setExportError((error as Error).message);
     }
-  }, [exportVideo]);
+  }, [exportSettings, exportVideo, voiceMode]);
+
+  const onExportTrack = useCallback(
+    async (format: TrackFormat) => {
+      setExportError(null);
+      try {
+        const track = await captureTrack({ sourceMode: voiceMode, fps: exportSettings.fps });
+        downloadBlob(
+          serializeTrack(track, format),
+          `avatar-session.${trackFormats[format].extension}`
+        );
+      } catch (error) {
+        console.error("Failed to export animation track", error);
+        setExportError((error as Error).message);
+      }
+    },
+    [captureTrack, exportSettings.fps, voiceMode]
+  );
+
+  const onExportCaptions = useCallback(
+    async (format: CaptionFormat) => {
+      setExportError(null);
+      try {
+        const cues = await captureCaptions({ sourceMode: voiceMode });
+        downloadBlob(
+          serializeCaptions(cues, format),
+          `avatar-session.${captionFormats[format].extension}`
+        );
+      } catch (error) {
+        console.error("Failed to export captions", error);
+        setExportError((error as Error).message);
+      }
+    },
+    [captureCaptions, voiceMode]
+  );
+
+  const onImportTrack = useCallback(
+    async (file: File) => {
+      try {
+        setAnimationTrack(await parseTrackFile(file, allEmotions, activeEmotion));
+        setTrackName(file.name);
+        setTrackError(null);
+      } catch (error) {
+        setTrackError((error as Error).message);
+      }
+    },
+    [activeEmotion, allEmotions]
+  );
+
+  const onClearTrack = useCallback(() => {
+    setIsPreviewing(false);
+    setAnimationTrack(null);
+    setTrackName(null);
+    setTrackError(null);
+  }, []);
 
   return (
     <div className={styles.container}>
@@ -158,10 +624,7 @@ export function AvatarStudio() {
             <button
               className={styles.primaryBtn}
               onClick={onStartPreview}
-              disabled={
-                (voiceMode === "audio" && !hasAudioLoaded) ||
-                (voiceMode === "text" && !ttsSupported)
-              }
+              disabled={!canPreview}
             >
               Start Real-Time Preview
             </button>
@@ -173,34 +636,89 @@ export function AvatarStudio() {
           <button className={styles.ghostBtn} onClick={onRegenerate}>
             Regenerate
           </button>
+          <SeedField seed={seed} onChange={onSeedChange} />
           <button
             className={styles.outlineBtn}
-            onClick={onExport}
-            disabled={isSpeaking}
+            onClick={() => setExportOpen(true)}
+            disabled={isSpeaking || exportProgress !== null || voiceMode === "mic"}
           >
-            Export MP4
+            Export
           </button>
         </motion.div>
       </section>
 
+      <ExportDialog
+        open={exportOpen}
+        settings={exportSettings}
+        progress={exportProgress}
+        error={exportError}
+        onChange={setExportSettings}
+        onClose={() => setExportOpen(false)}
+        onConfirm={onExport}
+        hasCaptions={voiceMode === "text" && !animationTrack}
+        onExportTrack={(format) => void onExportTrack(format)}
+        onExportCaptions={(format) => void onExportCaptions(format)}
+      />
+
+      <PortraitCalibrator
+        open={calibrating}
+        image={customImage}
+        landmarks={portraitLandmarks}
+        onClose={() => setCalibrating(false)}
+        onSave={(landmarks) => {
+          setPortraitLandmarks(landmarks);
+          setCalibrating(false);
+        }}
+      />
+
+      <RigMappingEditor
+        open={mappingOpen}
+        targets={rigTargets}
+        mapping={rigMapping ?? { morphs: {}, bones: {} }}
+        onClose={() => setMappingOpen(false)}
+        onSave={(mapping) => {
+          setRigMapping(mapping);
+          setMappingOpen(false);
+        }}
+      />
+
       <section className={styles.main}>
         <div className={styles.stageCard}>
           <AvatarStage
             avatar={activeAvatar}
-            emotion={emotion}
             lipState={lipState}
             isSpeaking={isSpeaking}
             seed={seed}
-            onCanvasReady={registerStageCanvas}
+            portraitStyle={portraitStyle}
+            cast={castPresets}
+            castStates={castStates}
+            camera={camera}
+            playbackTime={playbackTime}
+            duration={timeline.duration}
+            background={background}
+            backdropUrl={backdropUrl}
+            onRendererReady={registerStageRenderer}
+            onRigLoaded={onRigLoaded}
+            onModelError={onModelError}
+          />
+          <TimelineBar
+            time={playbackTime}
+            duration={timeline.duration}
+            markers={timeline.markers}
+            isSpeaking={isSpeaking}
+            isPaused={isPaused}
+            onPause={pausePreview}
+            onResume={() => void resumePreview()}
+            onSeek={seek}
           />
           <div className={styles.stageMeta}>
             <div>
               <span className={styles.metaLabel}>Emotion</span>
-              <strong>{emotion.label}</strong>
+              <strong>{activeEmotion.label}</strong>
             </div>
             <div>
               <span className={styles.metaLabel}>Voice Mode</span>
-              <strong>{voiceMode === "text" ? "Text → Speech" : "Audio Drive"}</strong>
+              <strong>{voiceModeLabels[voiceMode]}</strong>
             </div>
             <div>
               <span className={styles.metaLabel}>Status</span>
@@ -210,6 +728,23 @@ export function AvatarStudio() {
         </div>
 
         <div className={styles.sidebar}>
+          <div className={styles.card}>
+            <header>
+              <h2>Project</h2>
+              <p>Reopen a take later and export it again with the same settings.</p>
+            </header>
+            <ProjectPanel
+              projectId={projectId}
+              recentProjects={recentProjects}
+              lastSavedAt={lastSavedAt}
+              error={projectError}
+              onSave={() => void onSaveProject()}
+              onOpenFile={(file) => void onOpenProjectFile(file)}
+              onOpenRecent={(id) => void onOpenRecentProject(id)}
+              onRemoveRecent={removeProject}
+            />
+          </div>
+
           <div className={styles.card}>
             <header>
               <h2>Avatar Source</h2>
@@ -223,7 +758,9 @@ export function AvatarStudio() {
                     activeAvatar.id === preset.id ? styles.activeCard : ""
                   }`}
                   onClick={() => {
-                    setCustomImage(null);
+                    setPortrait(null);
+                    setPortraitLandmarks(null);
+                    setModel(null);
                     setSelectedPreset(preset);
                   }}
                 >
@@ -258,7 +795,48 @@ export function AvatarStudio() {
                   <span>Upload</span>
                 </div>
               </button>
+
+              <button
+                className={`${styles.presetCard} ${
+                  activeAvatar.id === "custom-model" ? styles.activeCard : ""
+                }`}
+                onClick={() => {
+                  modelInputRef.current?.click();
+                }}
+                title="glTF, GLB or VRM character"
+              >
+                <div className={styles.presetThumb}>
+                  <span>3D model</span>
+                </div>
+              </button>
             </div>
+            {modelFile && (
+              <button className={styles.ghostBtn} onClick={() => setMappingOpen(true)}>
+                Edit rig mapping
+              </button>
+            )}
+            {modelError && <span className={styles.warning}>{modelError}</span>}
+            {customImage && (
+              <>
+                <div className={styles.voiceSwitcher}>
+                  <button
+                    className={portraitStyle === "warp" ? styles.voiceActive : ""}
+                    onClick={() => setPortraitStyle("warp")}
+                  >
+                    Mesh warp
+                  </button>
+                  <button
+                    className={portraitStyle === "overlay" ? styles.voiceActive : ""}
+                    onClick={() => setPortraitStyle("overlay")}
+                  >
+                    Flat overlay
+                  </button>
+                </div>
+                <button className={styles.ghostBtn} onClick={() => setCalibrating(true)}>
+                  {portraitLandmarks ? "Recalibrate face" : "Calibrate face"}
+                </button>
+              </>
+            )}
             <input
               ref={fileInputRef}
               type="file"
@@ -266,12 +844,22 @@ export function AvatarStudio() {
               className={styles.hiddenInput}
               onChange={(event) => handleImageUpload(event.target.files?.[0])}
             />
+            <input
+              ref={modelInputRef}
+              type="file"
+              accept={MODEL_EXTENSIONS.join(",")}
+              className={styles.hiddenInput}
+              onChange={(event) => {
+                handleModelUpload(event.target.files?.[0]);
+                event.target.value = "";
+              }}
+            />
           </div>
 
           <div className={styles.card}>
             <header>
               <h2>Voice Designer</h2>
-              <p>Type a script or upload an audio track to drive the performance.</p>
+              <p>Type a script, upload an audio track or perform live into the mic.</p>
             </header>
             <div className={styles.voiceSwitcher}>
               <button
@@ -286,6 +874,12 @@ export function AvatarStudio() {
               >
                 Audio Driven
               </button>
+              <button
+                className={voiceMode === "mic" ? styles.voiceActive : ""}
+                onClick={() => setVoiceMode("mic")}
+              >
+                Live Mic
+              </button>
             </div>
 
             <AnimatePresence mode="wait">
@@ -298,19 +892,84 @@ export function AvatarStudio() {
                   transition={{ duration: 0.2 }}
                   className={styles.voicePanel}
                 >
-                  <textarea
-                    value={script}
-                    onChange={(event) => setScript(event.target.value)}
-                    placeholder="Write the script the avatar should perform…"
-                    rows={6}
+                  <ScriptEditor value={script} parsed={parsedScript} onChange={setScript} />
+                  <label className={styles.audioUploader}>
+                    <input
+                      type="checkbox"
+                      checked={autoGestures}
+                      onChange={(event) => setAutoGestures(event.target.checked)}
+                    />
+                    <span>Gesture on keywords and with the mood</span>
+                  </label>
+                  <CastPanel
+                    cast={cast}
+                    avatars={castAvatars}
+                    emotions={allEmotions}
+                    voiceEngine={voiceEngine}
+                    onChange={setCast}
                   />
+                  <div className={styles.voiceSwitcher}>
+                    <button
+                      className={voiceEngine === "browser" ? styles.voiceActive : ""}
+                      onClick={() => setVoiceEngine("browser")}
+                    >
+                      Browser Voice
+                    </button>
+                    <button
+                      className={voiceEngine === "http" ? styles.voiceActive : ""}
+                      onClick={() => setVoiceEngine("http")}
+                    >
+                      Local TTS Server
+                    </button>
+                  </div>
                   <div className={styles.voiceMeta}>
-                    <span>{script.length} chars</span>
-                    {!ttsSupported && (
+                    <span>{isSynthesizing ? "Synthesizing speech…" : `${parsedScript.text.length} chars`}</span>
+                    {voiceEngine === "browser" && !ttsSupported && (
                       <span className={styles.warning}>
                         Text-to-speech not supported in this browser.
                       </span>
                     )}
+                    {voiceEngine === "browser" && ttsSupported && (
+                      <span>Preview only: exports from the browser voice are silent.</span>
+                    )}
+                  </div>
+                </motion.div>
+              ) : voiceMode === "mic" ? (
+                <motion.div
+                  key="mic-mode"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  transition={{ duration: 0.2 }}
+                  className={styles.voicePanel}
+                >
+                  <label className={styles.audioUploader}>
+                    <input
+                      type="checkbox"
+                      checked={recordMic}
+                      disabled={isSpeaking}
+                      onChange={(event) => setRecordMic(event.target.checked)}
+                    />
+                    <span>Record this take</span>
+                  </label>
+                  {micRecording && !isRecording && (
+                    <div className={styles.audioUploader}>
+                      <button onClick={onUseMicRecording}>Use as audio track</button>
+                      <span>{micRecording.name}</span>
+                    </div>
+                  )}
+                  <div className={styles.voiceMeta}>
+                    <span>
+                      {isRecording
+                        ? "Recording…"
+                        : "The mic is analysed live and never played back."}
+                    </span>
+                    {!micSupported && (
+                      <span className={styles.warning}>
+                        Microphone input is not available in this browser.
+                      </span>
+                    )}
+                    {micError && <span className={styles.warning}>{micError}</span>}
                   </div>
                 </motion.div>
               ) : (
@@ -326,7 +985,11 @@ export function AvatarStudio() {
                     <button onClick={() => audioInputRef.current?.click()}>
                       {hasAudioLoaded ? "Replace audio" : "Upload audio"}
                     </button>
-                    <span>WAV, MP3 or OGG up to 60 seconds.</span>
+                    <span>
+                      {isAnalyzingAudio
+                        ? "Analyzing audio…"
+                        : "WAV, MP3 or OGG up to 60 seconds."}
+                    </span>
                   </div>
                   <input
                     ref={audioInputRef}
@@ -340,12 +1003,84 @@ export function AvatarStudio() {
             </AnimatePresence>
           </div>
 
+          <div className={styles.card}>
+            <header>
+              <h2>Performance Track</h2>
+              <p>Drive the avatar from recorded animation data instead of the engine.</p>
+            </header>
+            <div className={styles.audioUploader}>
+              <button onClick={() => trackInputRef.current?.click()}>
+                {animationTrack ? "Replace track" : "Import track"}
+              </button>
+              <span>
+                {animationTrack && trackName
+                  ? `${trackName} · ${animationTrack.duration.toFixed(1)}s`
+                  : "LipState JSON/CSV or an ARKit blendshape CSV."}
+              </span>
+            </div>
+            {animationTrack && (
+              <button className={styles.ghostBtn} onClick={onClearTrack}>
+                Back to live engine
+              </button>
+            )}
+            {trackError && <span className={styles.warning}>{trackError}</span>}
+            <input
+              ref={trackInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className={styles.hiddenInput}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) void onImportTrack(file);
+                event.target.value = "";
+              }}
+            />
+          </div>
+
+          <div className={styles.card}>
+            <header>
+              <h2>Camera</h2>
+              <p>Frame the take with shots, timed cuts and slow push-ins.</p>
+            </header>
+            <CameraPanel plan={camera} onChange={setCamera} />
+          </div>
+
+          <div className={styles.card}>
+            <header>
+              <h2>Background</h2>
+              <p>Set the scene, or key the avatar out over your own footage.</p>
+            </header>
+            <BackgroundPanel
+              background={background}
+              backdropName={backdropFile?.name ?? null}
+              onChange={setBackground}
+              onBackdropFile={handleBackdropUpload}
+            />
+          </div>
+
           <div className={styles.card}>
             <header>
               <h2>Emotional Performance</h2>
               <p>Dial in the tone and energy of the avatar&apos;s delivery.</p>
             </header>
-            <EmotionSelector value={emotion} onChange={setEmotion} />
+            <EmotionSelector presets={allEmotions} value={activeEmotion} onChange={setEmotion} />
+            <EmotionKeyframes
+              presets={allEmotions}
+              keyframes={emotionKeyframes}
+              transition={transitionTime}
+              current={emotion}
+              onChange={setEmotionKeyframes}
+              onTransitionChange={setTransitionTime}
+            />
+            <EmotionEditor
+              presets={customEmotions}
+              current={activeEmotion}
+              onPreview={setEmotionDraft}
+              onSave={onSaveEmotion}
+              onDelete={onDeleteEmotion}
+              onImport={importEmotions}
+              onExport={() => downloadBlob(exportEmotions(), "emotion-presets.json")}
+            />
           </div>
         </div>
       </section>
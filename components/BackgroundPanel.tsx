@@ -0,0 +1,91 @@
+import { useRef } from "react";
+import {
+  backgroundKindLabels,
+  CHROMA_GREEN,
+  type BackgroundKind,
+  type StageBackground
+} from "@/lib/background";
+import styles from "./background-panel.module.css";
+
+type Props = {
+  background: StageBackground;
+  backdropName: string | null;
+  onChange: (background: StageBackground) => void;
+  onBackdropFile: (file: File) => void;
+};
+
+const kinds = Object.keys(backgroundKindLabels) as BackgroundKind[];
+
+export function BackgroundPanel({ background, backdropName, onChange, onBackdropFile }: Props) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { kind } = background;
+  const usesMedia = kind === "image" || kind === "video";
+
+  return (
+    <div className={styles.background}>
+      <div className={styles.kinds}>
+        {kinds.map((option) => (
+          <button
+            key={option}
+            className={kind === option ? styles.kindActive : ""}
+            onClick={() => onChange({ ...background, kind: option })}
+          >
+            {backgroundKindLabels[option]}
+          </button>
+        ))}
+      </div>
+
+      {kind === "solid" && (
+        <label className={styles.row}>
+          <span>Color</span>
+          <input
+            type="color"
+            value={background.color}
+            onChange={(event) => onChange({ ...background, color: event.target.value })}
+          />
+        </label>
+      )}
+      {usesMedia && (
+        <div className={styles.row}>
+          <button className={styles.upload} onClick={() => inputRef.current?.click()}>
+            {backdropName ? "Replace" : `Choose ${kind}`}
+          </button>
+          <span className={styles.fileName}>{backdropName ?? "Nothing chosen yet"}</span>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={kind === "video" ? "video/*" : "image/*"}
+            hidden
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) onBackdropFile(file);
+              event.target.value = "";
+            }}
+          />
+        </div>
+      )}
+      {kind === "chroma" && (
+        <p className={styles.hint}>
+          Key out {CHROMA_GREEN} in your editor. The floor is left out so nothing spills onto it.
+        </p>
+      )}
+
+      <label className={styles.toggle}>
+        <input
+          type="checkbox"
+          checked={background.showRibbon}
+          onChange={(event) => onChange({ ...background, showRibbon: event.target.checked })}
+        />
+        <span>Ambient ribbon</span>
+      </label>
+      <label className={styles.toggle}>
+        <input
+          type="checkbox"
+          checked={background.showHud}
+          onChange={(event) => onChange({ ...background, showHud: event.target.checked })}
+        />
+        <span>Stage HUD</span>
+      </label>
+    </div>
+  );
+}
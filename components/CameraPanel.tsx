@@ -0,0 +1,130 @@
+import {
+  CAMERA_SHOTS,
+  cameraMoveLabels,
+  type CameraCue,
+  type CameraMove,
+  type CameraPlan,
+  type CameraShot
+} from "@/lib/camera";
+import { createId } from "@/lib/id";
+import styles from "./camera-panel.module.css";
+
+type Props = {
+  plan: CameraPlan;
+  onChange: (plan: CameraPlan) => void;
+};
+
+const shots = Object.keys(CAMERA_SHOTS) as CameraShot[];
+const moves = Object.keys(cameraMoveLabels) as CameraMove[];
+
+function ShotSelect({
+  shot,
+  move,
+  onChange
+}: {
+  shot: CameraShot;
+  move: CameraMove;
+  onChange: (patch: { shot?: CameraShot; move?: CameraMove }) => void;
+}) {
+  return (
+    <>
+      <select
+        value={shot}
+        aria-label="Shot"
+        onChange={(event) => onChange({ shot: event.target.value as CameraShot })}
+      >
+        {shots.map((option) => (
+          <option key={option} value={option}>
+            {CAMERA_SHOTS[option].label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={move}
+        aria-label="Camera move"
+        onChange={(event) => onChange({ move: event.target.value as CameraMove })}
+      >
+        {moves.map((option) => (
+          <option key={option} value={option}>
+            {cameraMoveLabels[option]}
+          </option>
+        ))}
+      </select>
+    </>
+  );
+}
+
+export function CameraPanel({ plan, onChange }: Props) {
+  const updateCue = (id: string, patch: Partial<CameraCue>) =>
+    onChange({
+      ...plan,
+      cues: plan.cues
+        .map((cue) => (cue.id === id ? { ...cue, ...patch } : cue))
+        .sort((a, b) => a.at - b.at)
+    });
+
+  const addCue = () => {
+    const last = plan.cues[plan.cues.length - 1];
+    const at = last ? Math.min(1, last.at + 0.25) : 0.5;
+    const shot = shots[(shots.indexOf(last?.shot ?? plan.shot) + 1) % shots.length];
+    onChange({ ...plan, cues: [...plan.cues, { id: createId(), at, shot, move: "cut" }] });
+  };
+
+  return (
+    <div className={styles.camera}>
+      <div className={styles.row}>
+        <span className={styles.position}>Start</span>
+        <ShotSelect
+          shot={plan.shot}
+          move={plan.move}
+          onChange={(patch) => onChange({ ...plan, ...patch })}
+        />
+        <span />
+      </div>
+
+      {plan.cues.map((cue) => (
+        <div key={cue.id} className={styles.row}>
+          <span className={styles.position}>{Math.round(cue.at * 100)}%</span>
+          <ShotSelect
+            shot={cue.shot}
+            move={cue.move}
+            onChange={(patch) => updateCue(cue.id, patch)}
+          />
+          <button
+            className={styles.remove}
+            aria-label="Remove cut"
+            onClick={() =>
+              onChange({ ...plan, cues: plan.cues.filter((item) => item.id !== cue.id) })
+            }
+          >
+            ×
+          </button>
+          <input
+            className={styles.slider}
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(cue.at * 100)}
+            aria-label="Position in take"
+            onChange={(event) => updateCue(cue.id, { at: Number(event.target.value) / 100 })}
+          />
+        </div>
+      ))}
+
+      <button className={styles.add} onClick={addCue}>
+        + Add cut
+      </button>
+      <label className={styles.lock}>
+        <input
+          type="checkbox"
+          checked={plan.locked}
+          onChange={(event) => onChange({ ...plan, locked: event.target.checked })}
+        />
+        <span>Lock framing so the preview shows exactly what exports</span>
+      </label>
+      <p className={styles.hint}>
+        Exports always follow these shots. Unlocked, you can still drag the preview around.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import type { EmotionPreset } from "@/lib/emotions";
+import type { AvatarPreset } from "@/lib/presets";
+import { createCastMember, MAX_CAST, type CastMember } from "@/lib/dialogue";
+import type { VoiceEngine } from "@/lib/speech";
+import styles from "./cast-panel.module.css";
+
+type Props = {
+  cast: CastMember[];
+  avatars: Extract<AvatarPreset, { type: "3d" }>[];
+  emotions: EmotionPreset[];
+  voiceEngine: VoiceEngine;
+  onChange: (cast: CastMember[]) => void;
+};
+
+const DEFAULT_NAMES = ["Alex", "Sam", "Robin", "Kai"];
+
+/** Browser voice names, which arrive asynchronously in most browsers. */
+const useBrowserVoices = () => {
+  const [voices, setVoices] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (typeof window === "undefined" || !("speechSynthesis" in window)) return;
+    const load = () => setVoices(window.speechSynthesis.getVoices().map((voice) => voice.name));
+    load();
+    window.speechSynthesis.addEventListener("voiceschanged", load);
+    return () => window.speechSynthesis.removeEventListener("voiceschanged", load);
+  }, []);
+
+  return voices;
+};
+
+export function CastPanel({ cast, avatars, emotions, voiceEngine, onChange }: Props) {
+  const voices = useBrowserVoices();
+
+  const update = (id: string, patch: Partial<CastMember>) =>
+    onChange(cast.map((member) => (member.id === id ? { ...member, ...patch } : member)));
+
+  const addMember = () => {
+    const taken = new Set(cast.map((member) => member.name));
+    const name = DEFAULT_NAMES.find((candidate) => !taken.has(candidate)) ?? "";
+    const avatar = avatars[cast.length % Math.max(avatars.length, 1)];
+    onChange([...cast, createCastMember(name, avatar?.id ?? "", emotions[0])]);
+  };
+
+  return (
+    <div className={styles.cast}>
+      {cast.length > 0 && (
+        <ul className={styles.list}>
+          {cast.map((member) => (
+            <li key={member.id} className={styles.member}>
+              <input
+                className={styles.name}
+                value={member.name}
+                placeholder="Name"
+                aria-label="Speaker name"
+                onChange={(event) => update(member.id, { name: event.target.value })}
+              />
+              <select
+                value={member.avatarId}
+                aria-label="Avatar"
+                onChange={(event) => update(member.id, { avatarId: event.target.value })}
+              >
+                {avatars.map((avatar) => (
+                  <option key={avatar.id} value={avatar.id}>
+                    {avatar.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={member.emotion.id}
+                aria-label="Emotion"
+                onChange={(event) => {
+                  const emotion = emotions.find((preset) => preset.id === event.target.value);
+                  if (emotion) update(member.id, { emotion });
+                }}
+              >
+                {emotions.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
+              {voiceEngine === "browser" ? (
+                <select
+                  value={member.voice}
+                  aria-label="Voice"
+                  onChange={(event) => update(member.id, { voice: event.target.value })}
+                >
+                  <option value="">Default voice</option>
+                  {voices.map((voice) => (
+                    <option key={voice} value={voice}>
+                      {voice}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  value={member.voice}
+                  placeholder="Server voice"
+                  aria-label="Voice"
+                  onChange={(event) => update(member.id, { voice: event.target.value })}
+                />
+              )}
+              <label className={styles.pitch}>
+                <span>Pitch</span>
+                <input
+                  type="range"
+                  min={0.5}
+                  max={2}
+                  step={0.05}
+                  value={member.pitch}
+                  onChange={(event) => update(member.id, { pitch: Number(event.target.value) })}
+                />
+              </label>
+              <button
+                className={styles.remove}
+                aria-label="Remove speaker"
+                onClick={() => onChange(cast.filter((item) => item.id !== member.id))}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        className={styles.add}
+        onClick={addMember}
+        disabled={cast.length >= MAX_CAST || !avatars.length}
+      >
+        + Add speaker
+      </button>
+      <p className={styles.hint}>
+        With two or more speakers, start lines with a name (“Alex: Hi!”) and the stage plays the
+        scene with the whole cast.
+      </p>
+    </div>
+  );
+}
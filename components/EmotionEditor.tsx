@@ -0,0 +1,181 @@
+import { useRef, useState } from "react";
+import type { EmotionPreset } from "@/lib/emotions";
+import {
+  createCustomEmotion,
+  emotionLimits,
+  emotionParameters,
+  MAX_DESCRIPTION_LENGTH,
+  MAX_LABEL_LENGTH,
+  validateEmotionPreset
+} from "@/lib/customEmotions";
+import styles from "./emotion-editor.module.css";
+
+type Props = {
+  presets: EmotionPreset[];
+  current: EmotionPreset;
+  onPreview: (draft: EmotionPreset | null) => void;
+  onSave: (preset: EmotionPreset) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => Promise<number>;
+  onExport: () => void;
+};
+
+export function EmotionEditor({
+  presets,
+  current,
+  onPreview,
+  onSave,
+  onDelete,
+  onImport,
+  onExport
+}: Props) {
+  const [draft, setDraft] = useState<EmotionPreset | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+  const isSaved = draft ? presets.some((preset) => preset.id === draft.id) : false;
+
+  const edit = (next: EmotionPreset | null) => {
+    setDraft(next);
+    onPreview(next);
+  };
+
+  const update = (patch: Partial<EmotionPreset>) => {
+    if (draft) edit({ ...draft, ...patch });
+  };
+
+  const save = () => {
+    if (!draft) return;
+    try {
+      onSave(validateEmotionPreset(draft));
+      setMessage(null);
+      setDraft(null);
+    } catch (error) {
+      setMessage({ text: (error as Error).message, error: true });
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const count = await onImport(file);
+      setMessage({ text: `Imported ${count} preset${count === 1 ? "" : "s"}.`, error: false });
+    } catch (error) {
+      setMessage({ text: (error as Error).message, error: true });
+    }
+  };
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.toolbar}>
+        <button onClick={() => edit(createCustomEmotion(current))}>+ New tone</button>
+        <button onClick={() => importRef.current?.click()}>Import JSON</button>
+        <button onClick={onExport} disabled={!presets.length}>
+          Export JSON
+        </button>
+        <input
+          ref={importRef}
+          type="file"
+          accept="application/json,.json"
+          className={styles.hiddenInput}
+          onChange={(event) => {
+            void handleImport(event.target.files?.[0]);
+            event.target.value = "";
+          }}
+        />
+      </div>
+
+      {presets.length > 0 && !draft && (
+        <div className={styles.saved}>
+          {presets.map((preset) => (
+            <button key={preset.id} className={styles.chip} onClick={() => edit(preset)}>
+              <span className={styles.swatch} style={{ background: preset.color }} />
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {draft && (
+        <div className={styles.form}>
+          <div
+            className={styles.preview}
+            style={{ borderColor: `${draft.color}aa`, boxShadow: `0 18px 40px ${draft.color}33` }}
+          >
+            <div className={styles.pill} style={{ background: draft.color }}>
+              {draft.label || "Untitled"}
+            </div>
+            <p>{draft.description || "Previewing live on the stage."}</p>
+          </div>
+
+          <div className={styles.row}>
+            <label className={styles.field}>
+              <span>Label</span>
+              <input
+                value={draft.label}
+                maxLength={MAX_LABEL_LENGTH}
+                onChange={(event) => update({ label: event.target.value })}
+              />
+            </label>
+            <label className={styles.colorField}>
+              <span>Color</span>
+              <input
+                type="color"
+                value={draft.color}
+                onChange={(event) => update({ color: event.target.value })}
+              />
+            </label>
+          </div>
+          <label className={styles.field}>
+            <span>Description</span>
+            <textarea
+              value={draft.description}
+              maxLength={MAX_DESCRIPTION_LENGTH}
+              rows={2}
+              onChange={(event) => update({ description: event.target.value })}
+            />
+          </label>
+
+          {emotionParameters.map((parameter) => {
+            const limit = emotionLimits[parameter];
+            return (
+              <label key={parameter} className={styles.slider}>
+                <span>{limit.label}</span>
+                <input
+                  type="range"
+                  min={limit.min}
+                  max={limit.max}
+                  step={0.01}
+                  value={draft[parameter]}
+                  onChange={(event) => update({ [parameter]: Number(event.target.value) })}
+                />
+                <strong>{draft[parameter].toFixed(2)}</strong>
+              </label>
+            );
+          })}
+
+          <div className={styles.actions}>
+            {isSaved && (
+              <button
+                className={styles.delete}
+                onClick={() => {
+                  onDelete(draft.id);
+                  edit(null);
+                }}
+              >
+                Delete
+              </button>
+            )}
+            <button onClick={() => edit(null)}>Cancel</button>
+            <button className={styles.save} onClick={save}>
+              Save tone
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={message.error ? styles.error : styles.note}>{message.text}</p>
+      )}
+    </div>
+  );
+}
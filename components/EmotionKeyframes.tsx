@@ -0,0 +1,98 @@
+import type { EmotionPreset } from "@/lib/emotions";
+import { createId } from "@/lib/id";
+import type { EmotionKeyframe } from "@/lib/motion";
+import styles from "./emotion-keyframes.module.css";
+
+type Props = {
+  presets: EmotionPreset[];
+  keyframes: EmotionKeyframe[];
+  transition: number;
+  current: EmotionPreset;
+  onChange: (keyframes: EmotionKeyframe[]) => void;
+  onTransitionChange: (seconds: number) => void;
+};
+
+export function EmotionKeyframes({
+  presets,
+  keyframes,
+  transition,
+  current,
+  onChange,
+  onTransitionChange
+}: Props) {
+  const update = (id: string, patch: Partial<EmotionKeyframe>) =>
+    onChange(
+      keyframes
+        .map((keyframe) => (keyframe.id === id ? { ...keyframe, ...patch } : keyframe))
+        .sort((a, b) => a.at - b.at)
+    );
+
+  const addKeyframe = () => {
+    const last = keyframes[keyframes.length - 1];
+    const at = last ? Math.min(1, last.at + 0.25) : 0.5;
+    onChange([...keyframes, { id: createId(), at, emotion: current }]);
+  };
+
+  return (
+    <div className={styles.keyframes}>
+      <label className={styles.transition}>
+        <span>Blend time</span>
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.1}
+          value={transition}
+          onChange={(event) => onTransitionChange(Number(event.target.value))}
+        />
+        <strong>{transition.toFixed(1)}s</strong>
+      </label>
+
+      {keyframes.length > 0 && (
+        <ul className={styles.list}>
+          {keyframes.map((keyframe) => (
+            <li key={keyframe.id} className={styles.row}>
+              <span className={styles.swatch} style={{ background: keyframe.emotion.color }} />
+              <select
+                value={keyframe.emotion.id}
+                onChange={(event) => {
+                  const emotion = presets.find((preset) => preset.id === event.target.value);
+                  if (emotion) update(keyframe.id, { emotion });
+                }}
+              >
+                {presets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(keyframe.at * 100)}
+                aria-label="Position in take"
+                onChange={(event) => update(keyframe.id, { at: Number(event.target.value) / 100 })}
+              />
+              <span className={styles.position}>{Math.round(keyframe.at * 100)}%</span>
+              <button
+                className={styles.remove}
+                aria-label="Remove keyframe"
+                onClick={() => onChange(keyframes.filter((item) => item.id !== keyframe.id))}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button className={styles.add} onClick={addKeyframe}>
+        + Add keyframe
+      </button>
+      <p className={styles.hint}>
+        Keyframes sit at a point in the take and blend in over the blend time.
+      </p>
+    </div>
+  );
+}
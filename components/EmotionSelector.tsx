@@ -1,16 +1,17 @@
 import { motion } from "framer-motion";
-import { emotionPresets, type EmotionPreset } from "@/lib/emotions";
+import type { EmotionPreset } from "@/lib/emotions";
 import styles from "./emotion-selector.module.css";
 
 type Props = {
+  presets: EmotionPreset[];
   value: EmotionPreset;
   onChange: (preset: EmotionPreset) => void;
 };
 
-export function EmotionSelector({ value, onChange }: Props) {
+export function EmotionSelector({ presets, value, onChange }: Props) {
   return (
     <div className={styles.grid}>
-      {emotionPresets.map((preset) => {
+      {presets.map((preset) => {
         const active = preset.id === value.id;
         return (
           <motion.button
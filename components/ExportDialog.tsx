@@ -0,0 +1,228 @@
+import { AnimatePresence, motion } from "framer-motion";
+import { trackFormats, type TrackFormat } from "@/lib/animationTrack";
+import { captionFormats, type CaptionFormat } from "@/lib/captions";
+import {
+  exportFormats,
+  type ExportFormat,
+  type ExportSettings
+} from "@/lib/videoExport";
+import styles from "./export-dialog.module.css";
+
+type Props = {
+  open: boolean;
+  settings: ExportSettings;
+  progress: number | null;
+  /** Why the last export failed, shown until the next attempt. */
+  error: string | null;
+  /** Whether the take has a script to caption; audio-driven takes don't. */
+  hasCaptions: boolean;
+  onChange: (settings: ExportSettings) => void;
+  onClose: () => void;
+  onConfirm: () => void;
+  onExportTrack: (format: TrackFormat) => void;
+  onExportCaptions: (format: CaptionFormat) => void;
+};
+
+const resolutionPresets = [
+  { label: "720p", width: 1280, height: 720 },
+  { label: "1080p", width: 1920, height: 1080 },
+  { label: "Square", width: 1080, height: 1080 },
+  { label: "Vertical", width: 1080, height: 1920 }
+];
+
+const frameRates = [24, 30, 60];
+
+export function ExportDialog({
+  open,
+  settings,
+  progress,
+  error,
+  hasCaptions,
+  onChange,
+  onClose,
+  onConfirm,
+  onExportTrack,
+  onExportCaptions
+}: Props) {
+  const format = exportFormats[settings.format];
+  const busy = progress !== null;
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          className={styles.backdrop}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={busy ? undefined : onClose}
+        >
+          <motion.div
+            className={styles.dialog}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="export-dialog-title"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            onClick={(event) => event.stopPropagation()}
+          >
+            <header>
+              <h2 id="export-dialog-title">Export Take</h2>
+              <p>Frames are rendered offline, so the file matches the take exactly.</p>
+            </header>
+
+            <fieldset className={styles.field} disabled={busy}>
+              <legend>Format</legend>
+              <div className={styles.options}>
+                {(Object.keys(exportFormats) as ExportFormat[]).map((key) => (
+                  <button
+                    key={key}
+                    className={settings.format === key ? styles.optionActive : ""}
+                    onClick={() => onChange({ ...settings, format: key })}
+                  >
+                    {exportFormats[key].label}
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset className={styles.field} disabled={busy}>
+              <legend>Resolution</legend>
+              <div className={styles.options}>
+                {resolutionPresets.map((preset) => (
+                  <button
+                    key={preset.label}
+                    className={
+                      settings.width === preset.width && settings.height === preset.height
+                        ? styles.optionActive
+                        : ""
+                    }
+                    onClick={() =>
+                      onChange({ ...settings, width: preset.width, height: preset.height })
+                    }
+                  >
+                    {preset.label}
+                    <span>
+                      {preset.width}×{preset.height}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset className={styles.field} disabled={busy}>
+              <legend>Frame rate</legend>
+              <div className={styles.options}>
+                {frameRates.map((fps) => (
+                  <button
+                    key={fps}
+                    className={settings.fps === fps ? styles.optionActive : ""}
+                    onClick={() => onChange({ ...settings, fps })}
+                  >
+                    {fps} fps
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset className={styles.field} disabled={busy || !format.supportsBitrate}>
+              <legend>Bitrate</legend>
+              <label className={styles.slider}>
+                <input
+                  type="range"
+                  min={1000}
+                  max={20000}
+                  step={500}
+                  value={settings.bitrateKbps}
+                  onChange={(event) =>
+                    onChange({ ...settings, bitrateKbps: Number(event.target.value) })
+                  }
+                />
+                <span>
+                  {format.supportsBitrate
+                    ? `${(settings.bitrateKbps / 1000).toFixed(1)} Mbps`
+                    : "Not used for this format"}
+                </span>
+              </label>
+            </fieldset>
+
+            {!format.supportsAudio && (
+              <p className={styles.note}>This format carries no audio track.</p>
+            )}
+
+            <fieldset className={styles.field} disabled={busy || !format.supportsAlpha}>
+              <legend>Background</legend>
+              <label className={styles.toggle}>
+                <input
+                  type="checkbox"
+                  checked={settings.transparent && format.supportsAlpha}
+                  onChange={(event) => onChange({ ...settings, transparent: event.target.checked })}
+                />
+                <span>Transparent, for compositing over other footage</span>
+              </label>
+              {!format.supportsAlpha && (
+                <p className={styles.note}>Only WebM and PNG sequences keep transparency.</p>
+              )}
+            </fieldset>
+
+            <fieldset className={styles.field} disabled={busy || !hasCaptions}>
+              <legend>Captions</legend>
+              <label className={styles.toggle}>
+                <input
+                  type="checkbox"
+                  checked={settings.burnCaptions && hasCaptions}
+                  onChange={(event) =>
+                    onChange({ ...settings, burnCaptions: event.target.checked })
+                  }
+                />
+                <span>Burn captions into the video, highlighting each word as it&apos;s said</span>
+              </label>
+              <div className={styles.options}>
+                {(Object.keys(captionFormats) as CaptionFormat[]).map((key) => (
+                  <button key={key} onClick={() => onExportCaptions(key)}>
+                    {captionFormats[key].label}
+                  </button>
+                ))}
+              </div>
+              <p className={styles.note}>
+                {hasCaptions
+                  ? "Caption files use the same timing as the rendered take."
+                  : "Captions follow the script, so only text-to-speech takes have them."}
+              </p>
+            </fieldset>
+
+            <fieldset className={styles.field} disabled={busy}>
+              <legend>Animation data</legend>
+              <div className={styles.options}>
+                {(Object.keys(trackFormats) as TrackFormat[]).map((key) => (
+                  <button key={key} onClick={() => onExportTrack(key)}>
+                    {trackFormats[key].label}
+                  </button>
+                ))}
+              </div>
+              <p className={styles.note}>
+                Time-stamped tracks at {settings.fps} fps for retargeting in other tools.
+              </p>
+            </fieldset>
+
+            {error && (
+              <p className={styles.error} role="alert">
+                Export failed: {error}
+              </p>
+            )}
+
+            <footer className={styles.footer}>
+              <button className={styles.cancel} onClick={onClose} disabled={busy}>
+                Cancel
+              </button>
+              <button className={styles.confirm} onClick={onConfirm} disabled={busy}>
+                {busy ? `Rendering ${Math.round((progress ?? 0) * 100)}%` : "Export"}
+              </button>
+            </footer>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from "react";
+import type { PointerEvent } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import {
+  canDetectLandmarks,
+  defaultLandmarks,
+  detectLandmarks,
+  LANDMARK_KEYS,
+  landmarkLabels,
+  type FaceLandmarks,
+  type LandmarkKey
+} from "@/lib/landmarks";
+import styles from "./portrait-calibrator.module.css";
+
+type Props = {
+  open: boolean;
+  image: string | null;
+  landmarks: FaceLandmarks | null;
+  onClose: () => void;
+  onSave: (landmarks: FaceLandmarks) => void;
+};
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export function PortraitCalibrator({ open, image, landmarks, onClose, onSave }: Props) {
+  const [points, setPoints] = useState<FaceLandmarks>(landmarks ?? defaultLandmarks);
+  const [dragging, setDragging] = useState<LandmarkKey | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const detectable = canDetectLandmarks();
+
+  const detect = async () => {
+    const element = imageRef.current;
+    if (!element) return;
+    setStatus("Looking for a face…");
+    try {
+      const found = await detectLandmarks(element);
+      if (found) setPoints(found);
+      setStatus(
+        found ? "Handles placed from face detection. Adjust as needed." : "No face found."
+      );
+    } catch (error) {
+      console.warn("Landmark detection failed", error);
+      setStatus("Face detection failed; place the handles by hand.");
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setPoints(landmarks ?? defaultLandmarks);
+    setStatus(null);
+  }, [landmarks, open]);
+
+  const moveHandle = (event: PointerEvent<HTMLDivElement>) => {
+    const frame = frameRef.current;
+    if (!dragging || !frame) return;
+    const rect = frame.getBoundingClientRect();
+    setPoints((prev) => ({
+      ...prev,
+      [dragging]: {
+        x: clamp01((event.clientX - rect.left) / rect.width),
+        y: clamp01((event.clientY - rect.top) / rect.height)
+      }
+    }));
+  };
+
+  return (
+    <AnimatePresence>
+      {open && image && (
+        <motion.div
+          className={styles.backdrop}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.div
+            className={styles.dialog}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="calibrator-title"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            onClick={(event) => event.stopPropagation()}
+          >
+            <header>
+              <h2 id="calibrator-title">Calibrate Portrait</h2>
+              <p>Drag each handle onto the face so the mouth and brows line up.</p>
+            </header>
+
+            <div
+              ref={frameRef}
+              className={styles.frame}
+              onPointerMove={moveHandle}
+              onPointerUp={() => setDragging(null)}
+              onPointerCancel={() => setDragging(null)}
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                ref={imageRef}
+                src={image}
+                alt="Portrait to calibrate"
+                onLoad={() => {
+                  if (!landmarks && detectable) void detect();
+                }}
+              />
+              <svg className={styles.guides} viewBox="0 0 1 1" preserveAspectRatio="none">
+                <line
+                  x1={points.mouthLeft.x}
+                  y1={points.mouthLeft.y}
+                  x2={points.mouthRight.x}
+                  y2={points.mouthRight.y}
+                />
+                <line
+                  x1={points.leftBrow.x}
+                  y1={points.leftBrow.y}
+                  x2={points.rightBrow.x}
+                  y2={points.rightBrow.y}
+                />
+              </svg>
+              {LANDMARK_KEYS.map((key) => (
+                <div
+                  key={key}
+                  className={styles.handle}
+                  data-active={dragging === key}
+                  style={{ left: `${points[key].x * 100}%`, top: `${points[key].y * 100}%` }}
+                  title={landmarkLabels[key]}
+                  onPointerDown={(event) => {
+                    event.currentTarget.parentElement?.setPointerCapture(event.pointerId);
+                    setDragging(key);
+                  }}
+                >
+                  <span>{landmarkLabels[key]}</span>
+                </div>
+              ))}
+            </div>
+
+            {status && <p className={styles.note}>{status}</p>}
+
+            <footer className={styles.footer}>
+              <button
+                className={styles.secondary}
+                onClick={() => void detect()}
+                disabled={!detectable}
+                title={detectable ? undefined : "Face detection is not available in this browser"}
+              >
+                Auto-detect
+              </button>
+              <button className={styles.secondary} onClick={() => setPoints(defaultLandmarks)}>
+                Reset
+              </button>
+              <button className={styles.cancel} onClick={onClose}>
+                Cancel
+              </button>
+              <button className={styles.confirm} onClick={() => onSave(points)}>
+                Save landmarks
+              </button>
+            </footer>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,81 @@
+import { useRef } from "react";
+import type { RecentProject } from "@/lib/projectStore";
+import styles from "./project-panel.module.css";
+
+type Props = {
+  projectId: string | null;
+  recentProjects: RecentProject[];
+  lastSavedAt: number | null;
+  error: string | null;
+  onSave: () => void;
+  onOpenFile: (file: File) => void;
+  onOpenRecent: (id: string) => void;
+  onRemoveRecent: (id: string) => void;
+};
+
+const formatSavedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+
+export function ProjectPanel({
+  projectId,
+  recentProjects,
+  lastSavedAt,
+  error,
+  onSave,
+  onOpenFile,
+  onOpenRecent,
+  onRemoveRecent
+}: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.actions}>
+        <button onClick={onSave}>Save project</button>
+        <button onClick={() => fileRef.current?.click()}>Open project</button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".zip,application/zip"
+          className={styles.hiddenInput}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) onOpenFile(file);
+            event.target.value = "";
+          }}
+        />
+      </div>
+      <p className={styles.status}>
+        {lastSavedAt
+          ? `Autosaved ${formatSavedAt(lastSavedAt)}`
+          : "Changes autosave in this browser."}
+      </p>
+      {error && <p className={styles.error}>{error}</p>}
+
+      {recentProjects.length > 0 && (
+        <ul className={styles.recent}>
+          {recentProjects.map((project) => (
+            <li key={project.id} data-current={project.id === projectId}>
+              <button className={styles.open} onClick={() => onOpenRecent(project.id)}>
+                <strong>{project.name}</strong>
+                <span>{formatSavedAt(project.savedAt)}</span>
+              </button>
+              <button
+                className={styles.remove}
+                aria-label={`Remove ${project.name}`}
+                onClick={() => onRemoveRecent(project.id)}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
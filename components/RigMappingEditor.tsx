@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import {
+  guessRigMapping,
+  RIG_BONE_CHANNELS,
+  RIG_MORPH_CHANNELS,
+  rigChannelLabels,
+  type RigBoneChannel,
+  type RigMapping,
+  type RigMorphChannel,
+  type RigTargets
+} from "@/lib/rig";
+import styles from "./rig-mapping-editor.module.css";
+
+type Props = {
+  open: boolean;
+  targets: RigTargets | null;
+  mapping: RigMapping;
+  onClose: () => void;
+  onSave: (mapping: RigMapping) => void;
+};
+
+const emptyTargets: RigTargets = { morphs: [], bones: [] };
+
+export function RigMappingEditor({ open, targets, mapping, onClose, onSave }: Props) {
+  const [draft, setDraft] = useState<RigMapping>(mapping);
+  const available = targets ?? emptyTargets;
+
+  useEffect(() => {
+    if (open) setDraft(mapping);
+  }, [mapping, open]);
+
+  const setMorph = (channel: RigMorphChannel, name: string) => {
+    setDraft((prev) => ({ ...prev, morphs: { ...prev.morphs, [channel]: name || undefined } }));
+  };
+
+  const setBone = (channel: RigBoneChannel, name: string) => {
+    setDraft((prev) => ({ ...prev, bones: { ...prev.bones, [channel]: name || undefined } }));
+  };
+
+  const mappedCount =
+    Object.values(draft.morphs).filter(Boolean).length +
+    Object.values(draft.bones).filter(Boolean).length;
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          className={styles.backdrop}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.div
+            className={styles.dialog}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="rig-mapping-title"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            onClick={(event) => event.stopPropagation()}
+          >
+            <header>
+              <h2 id="rig-mapping-title">Rig Mapping</h2>
+              <p>
+                Pick which morph target or bone in the model each animation channel drives.{" "}
+                {mappedCount} of {RIG_MORPH_CHANNELS.length + RIG_BONE_CHANNELS.length} mapped.
+              </p>
+            </header>
+
+            <section className={styles.section}>
+              <h3>Face · morph targets</h3>
+              {available.morphs.length === 0 && (
+                <p className={styles.note}>This model has no morph targets.</p>
+              )}
+              {RIG_MORPH_CHANNELS.map((channel) => (
+                <label key={channel} className={styles.row}>
+                  <span>{rigChannelLabels[channel]}</span>
+                  <select
+                    value={draft.morphs[channel] ?? ""}
+                    onChange={(event) => setMorph(channel, event.target.value)}
+                    disabled={!available.morphs.length}
+                  >
+                    <option value="">Not mapped</option>
+                    {available.morphs.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </section>
+
+            <section className={styles.section}>
+              <h3>Body · bones</h3>
+              {available.bones.length === 0 && (
+                <p className={styles.note}>This model has no skeleton.</p>
+              )}
+              {RIG_BONE_CHANNELS.map((channel) => (
+                <label key={channel} className={styles.row}>
+                  <span>{rigChannelLabels[channel]}</span>
+                  <select
+                    value={draft.bones[channel] ?? ""}
+                    onChange={(event) => setBone(channel, event.target.value)}
+                    disabled={!available.bones.length}
+                  >
+                    <option value="">Not mapped</option>
+                    {available.bones.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </section>
+
+            <footer className={styles.footer}>
+              <button
+                className={styles.secondary}
+                onClick={() => setDraft(guessRigMapping(available))}
+                disabled={!targets}
+              >
+                Auto-map
+              </button>
+              <button className={styles.cancel} onClick={onClose}>
+                Cancel
+              </button>
+              <button className={styles.confirm} onClick={() => onSave(draft)}>
+                Save mapping
+              </button>
+            </footer>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
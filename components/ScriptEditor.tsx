@@ -0,0 +1,76 @@
+import { useRef } from "react";
+import type { ReactNode } from "react";
+import { sourcePosition, type ParsedScript } from "@/lib/scriptMarkup";
+import styles from "./script-editor.module.css";
+
+type Props = {
+  value: string;
+  parsed: ParsedScript;
+  onChange: (value: string) => void;
+};
+
+const highlight = (parsed: ParsedScript) => {
+  const nodes: ReactNode[] = [];
+  let cursor = 0;
+  parsed.spans.forEach((span, index) => {
+    if (span.start > cursor) {
+      nodes.push(parsed.source.slice(cursor, span.start));
+    }
+    nodes.push(
+      <mark
+        key={index}
+        className={span.kind === "error" ? styles.error : styles.markup}
+        title={span.message}
+      >
+        {parsed.source.slice(span.start, span.end)}
+      </mark>
+    );
+    cursor = span.end;
+  });
+  // A trailing newline needs content after it or the backdrop ends one line short.
+  nodes.push(`${parsed.source.slice(cursor)} `);
+  return nodes;
+};
+
+export function ScriptEditor({ value, parsed, onChange }: Props) {
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.field}>
+        <div ref={backdropRef} className={styles.backdrop} aria-hidden>
+          {highlight(parsed)}
+        </div>
+        <textarea
+          className={styles.input}
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          onScroll={(event) => {
+            if (backdropRef.current) {
+              backdropRef.current.scrollTop = event.currentTarget.scrollTop;
+            }
+          }}
+          placeholder="Write the script the avatar should perform…"
+          spellCheck={false}
+          rows={6}
+        />
+      </div>
+      <p className={styles.hint}>
+        [emotion] switches mood · &lt;pause 600ms&gt; adds silence · *nod* *wave* *shrug*
+        *shake* *point* *count* *palms* gesture · Name: opens a line for a cast member
+      </p>
+      {parsed.errors.length > 0 && (
+        <ul className={styles.errors}>
+          {parsed.errors.map((error) => {
+            const { line, column } = sourcePosition(parsed.source, error.start);
+            return (
+              <li key={`${error.start}-${error.message}`}>
+                Line {line}, Col {column}: {error.message}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import styles from "./seed-field.module.css";
+
+type Props = {
+  seed: number;
+  onChange: (seed: number) => void;
+};
+
+/** Shows the take's seed; typing one back in replays that take exactly. */
+export function SeedField({ seed, onChange }: Props) {
+  const [draft, setDraft] = useState(String(seed));
+
+  useEffect(() => {
+    setDraft(String(seed));
+  }, [seed]);
+
+  const commit = () => {
+    const next = Number(draft.trim());
+    if (!draft.trim() || !Number.isFinite(next)) {
+      setDraft(String(seed));
+      return;
+    }
+    if (next !== seed) onChange(next);
+  };
+
+  return (
+    <label className={styles.field}>
+      <span>Seed</span>
+      <input
+        value={draft}
+        inputMode="numeric"
+        spellCheck={false}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") event.currentTarget.blur();
+          if (event.key === "Escape") setDraft(String(seed));
+        }}
+      />
+    </label>
+  );
+}
@@ -0,0 +1,108 @@
+import { useCallback, useRef, useState } from "react";
+import type { PointerEvent } from "react";
+import type { TimelineMarker } from "@/hooks/useLipSyncEngine";
+import styles from "./timeline-bar.module.css";
+
+type Props = {
+  time: number;
+  duration: number;
+  markers: TimelineMarker[];
+  isSpeaking: boolean;
+  isPaused: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  /** Fires while dragging with `settled` false, then once more on release. */
+  onSeek: (seconds: number, settled: boolean) => void;
+};
+
+const formatTime = (seconds: number) => {
+  const safe = Math.max(0, seconds);
+  const minutes = Math.floor(safe / 60);
+  const rest = (safe % 60).toFixed(1).padStart(4, "0");
+  return `${minutes}:${rest}`;
+};
+
+export function TimelineBar({
+  time,
+  duration,
+  markers,
+  isSpeaking,
+  isPaused,
+  onPause,
+  onResume,
+  onSeek
+}: Props) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  // Where the pointer holds the playhead while dragging, ahead of the engine.
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  const scrubbable = isSpeaking && duration > 0;
+  const shownTime = scrubTime ?? time;
+  const progress = duration > 0 ? Math.min(shownTime / duration, 1) : 0;
+
+  const scrubToPointer = useCallback(
+    (event: PointerEvent<HTMLDivElement>) => {
+      const track = trackRef.current;
+      if (!track || !scrubbable) return;
+      const rect = track.getBoundingClientRect();
+      const ratio = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+      setScrubTime(ratio * duration);
+      onSeek(ratio * duration, false);
+    },
+    [duration, onSeek, scrubbable]
+  );
+
+  const settleScrub = useCallback(() => {
+    if (scrubTime === null) return;
+    setScrubTime(null);
+    onSeek(scrubTime, true);
+  }, [onSeek, scrubTime]);
+
+  return (
+    <div className={styles.timeline}>
+      <button
+        className={styles.toggle}
+        onClick={isPaused ? onResume : onPause}
+        disabled={!isSpeaking}
+        aria-label={isPaused ? "Resume" : "Pause"}
+      >
+        {isPaused || !isSpeaking ? "▶" : "❚❚"}
+      </button>
+      <div
+        ref={trackRef}
+        className={styles.track}
+        data-disabled={!scrubbable}
+        role="slider"
+        aria-label="Playhead"
+        aria-valuemin={0}
+        aria-valuemax={duration}
+        aria-valuenow={shownTime}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          scrubToPointer(event);
+        }}
+        onPointerMove={(event) => {
+          if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+            scrubToPointer(event);
+          }
+        }}
+        onPointerUp={settleScrub}
+        onPointerCancel={settleScrub}
+      >
+        <div className={styles.fill} style={{ width: `${progress * 100}%` }} />
+        {duration > 0 &&
+          markers.map((marker, index) => (
+            <span
+              key={`${marker.label}-${index}`}
+              className={styles.marker}
+              style={{ left: `${(marker.time / duration) * 100}%` }}
+              title={marker.label}
+            />
+          ))}
+        <span className={styles.playhead} style={{ left: `${progress * 100}%` }} />
+      </div>
+      <span className={styles.clock}>
+        {formatTime(shownTime)} / {formatTime(duration)}
+      </span>
+    </div>
+  );
+}
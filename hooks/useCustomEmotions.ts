@@ -0,0 +1,59 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { EmotionPreset } from "@/lib/emotions";
+import {
+  createCustomEmotionId,
+  exportEmotionPresets,
+  loadCustomEmotions,
+  parseEmotionPresetFile,
+  saveCustomEmotions
+} from "@/lib/customEmotions";
+
+export const useCustomEmotions = () => {
+  const [customEmotions, setCustomEmotions] = useState<EmotionPreset[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setCustomEmotions(loadCustomEmotions());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) {
+      saveCustomEmotions(customEmotions);
+    }
+  }, [customEmotions, loaded]);
+
+  const saveEmotion = useCallback((preset: EmotionPreset) => {
+    setCustomEmotions((prev) =>
+      prev.some((item) => item.id === preset.id)
+        ? prev.map((item) => (item.id === preset.id ? preset : item))
+        : [...prev, preset]
+    );
+  }, []);
+
+  const deleteEmotion = useCallback((id: string) => {
+    setCustomEmotions((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  /** Imported presets never overwrite existing ones; clashing ids get a new one. */
+  const importEmotions = useCallback(async (file: File) => {
+    const imported = parseEmotionPresetFile(await file.text());
+    setCustomEmotions((prev) => {
+      const taken = new Set(prev.map((item) => item.id));
+      const fresh = imported.map((preset) =>
+        taken.has(preset.id) ? { ...preset, id: createCustomEmotionId() } : preset
+      );
+      return [...prev, ...fresh];
+    });
+    return imported.length;
+  }, []);
+
+  const exportEmotions = useCallback(
+    () => exportEmotionPresets(customEmotions),
+    [customEmotions]
+  );
+
+  return { customEmotions, saveEmotion, deleteEmotion, importEmotions, exportEmotions };
+};
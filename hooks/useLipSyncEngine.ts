@@ -3,8 +3,97 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { EmotionPreset } from "@/lib/emotions";
 import type { AvatarPreset } from "@/lib/presets";
+import type { ModelPreset } from "@/lib/rig";
+import {
+  armLift,
+  GESTURE_CLIPS,
+  keywordGesture,
+  moodGesture,
+  restArms,
+  sampleGestures,
+  type ArmsPose
+} from "@/lib/gestures";
+import {
+  blendLipStates,
+  sampleAnimationTrack,
+  type AnimationTrack
+} from "@/lib/animationTrack";
+import {
+  analyzeAudioBuffer,
+  buildAudioVisemeTrack,
+  classifySpectrum,
+  decibelBytesToPower,
+  decodeAudioFile,
+  measureBands,
+  type AudioFeatureFrame
+} from "@/lib/audioAnalysis";
+import {
+  buildCaptionCues,
+  createCaptionCompositor,
+  retimeWords,
+  speechTimeWarp,
+  type CaptionCue,
+  type CaptionSpan
+} from "@/lib/captions";
+import {
+  castStatesAt,
+  restingLipState,
+  speakerAtChar,
+  timeTurns,
+  type DialogueScene,
+  type SceneTurn
+} from "@/lib/dialogue";
+import { clamp, createSeeder } from "@/lib/math";
+import {
+  createMicRecorder,
+  isMicSupported,
+  requestMicStream,
+  type MicStreamFactory
+} from "@/lib/microphone";
+import {
+  blendEmotions,
+  emotionAt,
+  idleMotion,
+  transitionProgress,
+  withKeyframes,
+  type EmotionKeyframe,
+  type TimelineEvent
+} from "@/lib/motion";
+import {
+  parseScript,
+  splitSpeechChunks,
+  type ParsedScript,
+  type ScriptGesture,
+  type SpeechChunk
+} from "@/lib/scriptMarkup";
+import {
+  joinSpeechClips,
+  type SpeechBackend,
+  type SpeechClip,
+  type SpeechProsody
+} from "@/lib/speech";
+import {
+  captureCanvasFrame,
+  createFrameEncoder,
+  defaultExportSettings,
+  exportFormats,
+  type ExportFile,
+  type ExportSettings
+} from "@/lib/videoExport";
+import {
+  createVisemeWeights,
+  getMouthShape,
+  isVowel,
+  mixVisemeWeights,
+  normalizeVisemeWeights,
+  phonemeToViseme,
+  textToPhonemes,
+  type Viseme,
+  type VisemeFrame,
+  type VisemeWeights
+} from "@/lib/visemes";
 
-export type VoiceMode = "text" | "audio";
+export type VoiceMode = "text" | "audio" | "mic";
 
 export type LipState = {
   mouthOpen: number;
@@ -19,9 +108,12 @@ export type LipState = {
   handLeft: number;
   handRight: number;
   bodySway: number;
+  arms: ArmsPose;
+  visemes: VisemeWeights;
+  mood: EmotionPreset;
 };
 
-const initialLipState: LipState = {
+const initialLipState: Omit<LipState, "mood"> = {
   mouthOpen: 0.1,
   mouthWidth: 0.1,
   blink: 0,
@@ -33,51 +125,100 @@ const initialLipState: LipState = {
   gazeY: 0,
   handLeft: 0,
   handRight: 0,
-  bodySway: 0
+  bodySway: 0,
+  arms: restArms(0, 0),
+  visemes: createVisemeWeights()
 };
 
-const EXPORT_DURATION_MS = 8000;
-
 type UseLipSyncEngineProps = {
   emotion: EmotionPreset;
-  script: string;
-  avatar: AvatarPreset;
+  script: ParsedScript;
+  avatar: AvatarPreset | ModelPreset;
   seed: number;
+  speechBackend?: SpeechBackend | null;
+  emotionKeyframes?: EmotionKeyframe[];
+  transitionTime?: number;
+  micStreamFactory?: MicStreamFactory;
+  /** An imported performance that replaces the engine's own motion. */
+  animationTrack?: AnimationTrack | null;
+  /** Adds gestures on keywords and, depending on the mood, between them. */
+  autoGestures?: boolean;
+  /** Speaker turns and cast when `script` was compiled from a dialogue. */
+  dialogue?: DialogueScene | null;
 };
 
 type StartPreviewOptions = {
   forceRestart?: boolean;
   sourceMode?: VoiceMode;
-  fromExport?: boolean;
+  record?: boolean;
 };
 
-type VisemeFrame = {
-  time: number;
-  mouth: number;
+type ExportOptions = {
+  sourceMode?: VoiceMode;
+  settings?: ExportSettings;
+};
+
+type TrackOptions = {
+  sourceMode?: VoiceMode;
+  fps?: number;
+};
+
+/**
+ * The size and length of an offline render, which the stage frames its
+ * camera by. A `transparent` render leaves out the background.
+ */
+export type OfflineTake = {
   width: number;
+  height: number;
+  duration: number;
+  transparent: boolean;
 };
 
-type ExportResult = Blob | null;
+export type StageRenderer = {
+  canvas: HTMLCanvasElement;
+  renderFrame: (
+    time: number,
+    lipState: LipState,
+    castStates?: LipState[] | null
+  ) => Promise<void>;
+  setOffline: (offline: boolean, take?: OfflineTake) => void;
+};
 
-const hasWindow = typeof window !== "undefined";
+type ExportResult = ExportFile | null;
 
-const createSeeder = (seed: number) => {
-  let value = seed * 10_000;
-  return () => {
-    value = Math.sin(value + 0.12345) * 43758.5453;
-    return value - Math.floor(value);
-  };
+type ElementSource = "upload" | "speech";
+
+export type TimelineMarker = {
+  label: string;
+  time: number;
 };
 
-const clamp = (value: number, min: number, max: number) =>
-  Math.min(Math.max(value, min), max);
+type TimelineInfo = {
+  duration: number;
+  markers: TimelineMarker[];
+};
+
+type SynthesizedSpeech = {
+  key: string;
+  blob: Blob;
+  url: string;
+  track: VisemeFrame[];
+  /** Where each separately synthesized chunk of the script landed in `blob`. */
+  spans: CaptionSpan[];
+};
+
+const hasWindow = typeof window !== "undefined";
+
+const noKeyframes: EmotionKeyframe[] = [];
+
+/** Seconds to ease between the idle pose and a take, either way. */
+const HANDOFF_TIME = 0.4;
 
 const getWords = (text: string) =>
-  text
-    .replace(/\s+/g, " ")
-    .trim()
-    .split(" ")
-    .filter(Boolean);
+  Array.from(text.matchAll(/\S+/g), (match) => ({
+    text: match[0],
+    charIndex: match.index ?? 0
+  }));
 
 const estimateWordDuration = (emotion: EmotionPreset) => {
   const base = 0.42;
@@ -86,66 +227,182 @@ const estimateWordDuration = (emotion: EmotionPreset) => {
   return clamp(base - energyOffset - handOffset, 0.28, 0.6);
 };
 
+type WordTiming = {
+  text: string;
+  charIndex: number;
+  start: number;
+  end: number;
+};
+
+type TimeAnchor = {
+  wordIndex: number;
+  elapsed: number;
+  timeline: number;
+  rate: number;
+  limit: number;
+};
+
+type PhonemeCue = {
+  viseme: Viseme;
+  center: number;
+  spread: number;
+  strength: number;
+};
+
 const buildVisemeTimeline = (
-  text: string,
+  script: ParsedScript,
   emotion: EmotionPreset,
-  seed: number
+  seed: number,
+  keyframes: EmotionKeyframe[],
+  transition: number,
+  autoGestures: boolean
 ) => {
-  const words = getWords(text);
+  const words = getWords(script.text);
   const random = createSeeder(seed);
   const frames: VisemeFrame[] = [];
+  let events: TimelineEvent[] = [];
   if (!words.length) {
     const fallbackDuration = 2.5;
     const frameCount = Math.floor(fallbackDuration * 60);
     for (let i = 0; i < frameCount; i += 1) {
       const t = i / 60;
+      const mouth = 0.2 + random() * 0.15;
       frames.push({
         time: t,
-        mouth: 0.2 + random() * 0.15,
-        width: 0.3 + random() * 0.15
+        mouth,
+        width: 0.3 + random() * 0.15,
+        visemes: createVisemeWeights("aa", mouth)
       });
     }
-    return { frames, duration: fallbackDuration };
+    return { frames, duration: fallbackDuration, words: [], events, cueEvents: events };
   }
 
-  const wordDuration = estimateWordDuration(emotion);
-  const duration = Math.max(words.length * wordDuration + 1.2, 2);
-  const frameCount = Math.floor(duration * 60);
+  const cues: PhonemeCue[] = [];
+  const timings: WordTiming[] = [];
+  const scriptCues = [...script.cues];
+  let active = emotion;
+  let cursor = 0;
+  let gestureUntil = 0;
 
-  const peaks = words.map((word, index) => {
-    const vowelWeight = (word.match(/[aeiouy]/gi)?.length ?? 1) / word.length;
-    const consonantStrength = (word.match(/[pbmfvl]/gi)?.length ?? 0) * 0.15;
-    const base = 0.45 + (emotion.mouthEnergy - 0.5) * 0.4;
-    const noise = (random() - 0.5) * 0.25;
-    return {
-      time: clamp((index * wordDuration) + random() * 0.05, 0, duration),
-      mouth: clamp(base + vowelWeight * 0.35 + consonantStrength + noise, 0, 1),
-      width: clamp(0.35 + vowelWeight * 0.2 + (emotion.mouthEnergy - 0.5), 0, 1)
-    };
-  });
+  const addGesture = (gesture: ScriptGesture) => {
+    events.push({ type: "gesture", time: cursor, gesture });
+    gestureUntil = cursor + GESTURE_CLIPS[gesture].duration;
+  };
+
+  const applyScriptCues = (charIndex: number) => {
+    while (scriptCues.length && scriptCues[0].charIndex <= charIndex) {
+      const cue = scriptCues.shift()!;
+      if (cue.type === "pause") {
+        cursor += cue.duration;
+      } else if (cue.type === "emotion") {
+        active = cue.emotion;
+        events.push({ type: "emotion", time: cursor, emotion: cue.emotion });
+      } else {
+        addGesture(cue.gesture);
+      }
+    }
+  };
+
+  for (const [index, word] of words.entries()) {
+    applyScriptCues(word.charIndex);
+    // Unscripted gestures only fill gaps, so they never cut a cue short.
+    if (autoGestures && cursor >= gestureUntil) {
+      const gesture = keywordGesture(word.text) ?? moodGesture(seed, index, active);
+      if (gesture) addGesture(gesture);
+    }
+    const wordDuration = estimateWordDuration(active);
+    const phonemes = textToPhonemes(word.text);
+    const span = wordDuration * clamp(phonemes.length / 4, 0.6, 1.8);
+    const units = phonemes.reduce((sum, phoneme) => sum + (isVowel(phoneme) ? 1.4 : 1), 0);
+    let offset = cursor + random() * 0.03;
+    for (const phoneme of phonemes) {
+      const length = (span * 0.85 * (isVowel(phoneme) ? 1.4 : 1)) / units;
+      cues.push({
+        viseme: phonemeToViseme[phoneme],
+        center: offset + length / 2,
+        spread: Math.max(length * 0.6, 0.035),
+        strength: clamp(0.85 + (random() - 0.5) * 0.2, 0, 1)
+      });
+      offset += length;
+    }
+    timings.push({ ...word, start: cursor, end: cursor + span });
+    cursor += span;
+    if (/[,;:]$/.test(word.text)) cursor += 0.18;
+    if (/[.!?]$/.test(word.text)) cursor += 0.32;
+  }
+  applyScriptCues(Number.POSITIVE_INFINITY);
+
+  const duration = Math.max(cursor + 1.2, 2);
+  const frameCount = Math.floor(duration * 60);
+  const cueEvents = events;
+  events = withKeyframes(events, keyframes, duration);
 
   for (let frame = 0; frame < frameCount; frame += 1) {
     const t = frame / 60;
-    let mouth = 0.12;
-    let width = 0.3;
-    for (const peak of peaks) {
-      const diff = Math.abs(t - peak.time);
-      const influence = Math.exp(-((diff ** 2) / 0.08));
-      mouth += peak.mouth * influence;
-      width += peak.width * influence * 0.7;
+    const frameEmotion = emotionAt(events, t, emotion, transition);
+    const energy = 0.75 + frameEmotion.mouthEnergy * 0.5;
+    const weights = createVisemeWeights("sil", 0);
+    let voiced = 0;
+    for (const cue of cues) {
+      const diff = t - cue.center;
+      if (Math.abs(diff) > cue.spread * 4) continue;
+      const influence = Math.exp(-(diff ** 2) / (2 * cue.spread ** 2)) * cue.strength;
+      weights[cue.viseme] += influence;
+      voiced += influence;
     }
-    mouth *= 0.55 + random() * 0.1;
-    width *= 0.45 + random() * 0.1;
-    mouth = clamp(mouth, 0.05, 1);
-    width = clamp(width, 0.05, 0.95);
-    frames.push({ time: t, mouth, width });
+    weights.sil = Math.max(0, 1 - voiced);
+    const visemes = normalizeVisemeWeights(weights);
+    const shape = getMouthShape(visemes);
+    const mouth = clamp(shape.open * energy * (0.95 + random() * 0.1), 0.02, 1);
+    const width = clamp(shape.width * (0.9 + frameEmotion.mouthEnergy * 0.2), 0.05, 0.95);
+    frames.push({ time: t, mouth, width, visemes });
   }
 
-  return { frames, duration };
+  return { frames, duration, words: timings, events, cueEvents };
+};
+
+const speechProsody = (emotion: EmotionPreset): SpeechProsody => ({
+  pitch: clamp(1 + (emotion.browLift * 0.5), 0.6, 1.6),
+  rate: clamp(1 + (emotion.mouthEnergy - 0.5) * 0.4, 0.7, 1.5),
+  volume: clamp(0.8 + emotion.handAmplitude * 0.3, 0.4, 1)
+});
+
+const chunkProsody = (
+  take: ParsedScript,
+  chunk: SpeechChunk,
+  fallback: EmotionPreset,
+  scene: DialogueScene | null
+) => {
+  let active = fallback;
+  for (const cue of take.cues) {
+    if (cue.charIndex > chunk.start) break;
+    if (cue.type === "emotion") active = cue.emotion;
+  }
+  const prosody = speechProsody(active);
+  const speaker = scene && speakerAtChar(scene, chunk.start);
+  if (!speaker) return prosody;
+  return {
+    ...prosody,
+    pitch: clamp(prosody.pitch * speaker.pitch, 0.5, 2),
+    voice: speaker.voice || undefined
+  };
+};
+
+/**
+ * Maps real elapsed seconds onto the estimated timeline. Without an anchor the
+ * estimate is trusted as-is; once the voice reports a word boundary, playback
+ * continues from that word at the measured speaking rate and holds at the next
+ * word until the voice catches up.
+ */
+const warpTimeline = (anchor: TimeAnchor | null, elapsed: number) => {
+  if (!anchor) return elapsed;
+  return Math.min(anchor.timeline + (elapsed - anchor.elapsed) * anchor.rate, anchor.limit);
 };
 
 const sampleViseme = (timeline: VisemeFrame[], elapsed: number) => {
-  if (!timeline.length) return { mouth: 0.1, width: 0.3 };
+  if (!timeline.length) {
+    return { mouth: 0.1, width: 0.3, visemes: createVisemeWeights() };
+  }
   const total = timeline[timeline.length - 1]?.time ?? elapsed;
   if (elapsed >= total) return timeline[timeline.length - 1];
   const index = timeline.findIndex((frame) => frame.time >= elapsed);
@@ -156,7 +413,8 @@ const sampleViseme = (timeline: VisemeFrame[], elapsed: number) => {
   const weight = clamp((elapsed - prev.time) / span, 0, 1);
   return {
     mouth: prev.mouth + (current.mouth - prev.mouth) * weight,
-    width: prev.width + (current.width - prev.width) * weight
+    width: prev.width + (current.width - prev.width) * weight,
+    visemes: mixVisemeWeights(prev.visemes, current.visemes, weight)
   };
 };
 
@@ -164,33 +422,85 @@ export const useLipSyncEngine = ({
   emotion,
   script,
   avatar,
-  seed
+  seed,
+  speechBackend = null,
+  emotionKeyframes = noKeyframes,
+  transitionTime = 0.6,
+  micStreamFactory = requestMicStream,
+  animationTrack = null,
+  autoGestures = true,
+  dialogue = null
 }: UseLipSyncEngineProps) => {
-  const [lipState, setLipState] = useState<LipState>(initialLipState);
+  const [lipState, setLipState] = useState<LipState>(() => ({
+    ...initialLipState,
+    mood: emotion
+  }));
+  const lipStateRef = useRef(lipState);
+  lipStateRef.current = lipState;
+  const [castStates, setCastStates] = useState<LipState[] | null>(null);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [hasAudioLoaded, setHasAudioLoaded] = useState(false);
   const [ttsSupported, setTtsSupported] = useState(false);
+  const [isAnalyzingAudio, setIsAnalyzingAudio] = useState(false);
+  const [audioFeatures, setAudioFeatures] = useState<AudioFeatureFrame[] | null>(null);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [isSynthesizing, setIsSynthesizing] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [timeline, setTimeline] = useState<TimelineInfo>({ duration: 0, markers: [] });
+  const [micSupported, setMicSupported] = useState(false);
+  const [micError, setMicError] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [micRecording, setMicRecording] = useState<File | null>(null);
 
   const modeRef = useRef<VoiceMode>("text");
   const rafRef = useRef<number>();
   const startTimeRef = useRef<number>(0);
   const visemeTimelineRef = useRef<VisemeFrame[]>([]);
   const visemeDurationRef = useRef<number>(0);
-  const exportResolveRef = useRef<(() => void) | null>(null);
+  const wordTimingsRef = useRef<WordTiming[]>([]);
+  const timeAnchorRef = useRef<TimeAnchor | null>(null);
+  const spokenScriptRef = useRef<ParsedScript | null>(null);
+  const timelineEventsRef = useRef<TimelineEvent[]>([]);
+  /** The script's own events, before emotion keyframes are placed along the take. */
+  const cueEventsRef = useRef<TimelineEvent[]>([]);
+  const pauseTimerRef = useRef<number>();
+  const emotionTransitionRef = useRef({ from: emotion, to: emotion, start: 0 });
+  const transitionTimeRef = useRef(transitionTime);
+  transitionTimeRef.current = transitionTime;
+  const seedRef = useRef(seed);
+  seedRef.current = seed;
+  const handoffRef = useRef<{ from: LipState; start: number | null } | null>(null);
+  const dialogueRef = useRef(dialogue);
+  dialogueRef.current = dialogue;
+  const sceneTurnsRef = useRef<SceneTurn[]>([]);
+  const pausedAtRef = useRef<number | null>(null);
+  const audioTrackRef = useRef<VisemeFrame[]>([]);
+  const elementSourceRef = useRef<ElementSource | null>(null);
+  const speechRef = useRef<SynthesizedSpeech | null>(null);
+  const analysisIdRef = useRef(0);
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const objectUrlRef = useRef<string | null>(null);
+  const audioFileRef = useRef<File | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const audioDataRef = useRef<Uint8Array | null>(null);
-  const stageCanvasRef = useRef<HTMLCanvasElement | null>(null);
-  const randomRef = useRef(createSeeder(seed));
+  const frequencyDataRef = useRef<Uint8Array | null>(null);
+  const liveVisemesRef = useRef<VisemeWeights>(createVisemeWeights());
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const stageRendererRef = useRef<StageRenderer | null>(null);
+  const animationTrackRef = useRef(animationTrack);
+  animationTrackRef.current = animationTrack;
 
   const ttsUtteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
 
   useEffect(() => {
     if (!hasWindow) return;
     setTtsSupported("speechSynthesis" in window && typeof SpeechSynthesisUtterance !== "undefined");
+    setMicSupported(isMicSupported());
   }, []);
 
   useEffect(() => {
@@ -207,13 +517,13 @@ export const useLipSyncEngine = ({
   }, []);
 
   useEffect(() => {
-    randomRef.current = createSeeder(seed + (emotion.mouthEnergy * 100));
-  }, [seed, emotion]);
+    audioTrackRef.current = audioFeatures ? buildAudioVisemeTrack(audioFeatures, emotion) : [];
+  }, [audioFeatures, emotion]);
 
   const ensureAudioContext = useCallback(() => {
     if (!hasWindow) return null;
     if (!audioContextRef.current) {
-      audioContextRef.current = new AudioContext();
+      audioContextRef.current = new AudioContext({ latencyHint: "interactive" });
     }
     return audioContextRef.current;
   }, []);
@@ -229,21 +539,39 @@ export const useLipSyncEngine = ({
       const bufferLength = analyser.frequencyBinCount;
       const arrayBuffer = new ArrayBuffer(bufferLength);
       audioDataRef.current = new Uint8Array(arrayBuffer);
+      frequencyDataRef.current = new Uint8Array(new ArrayBuffer(bufferLength));
+      // Only the element is routed to the speakers; the mic also feeds the
+      // analyser and must never be heard, or it would feed back.
       source.connect(analyser);
-      analyser.connect(ctx.destination);
+      source.connect(ctx.destination);
       analyserRef.current = analyser;
     }
     return analyserRef.current;
   }, [ensureAudioContext]);
 
   const stopSpeechSynthesis = useCallback(() => {
+    window.clearTimeout(pauseTimerRef.current);
     if (!ttsSupported) return;
-    if (ttsUtteranceRef.current) {
+    const utterance = ttsUtteranceRef.current;
+    if (utterance) {
+      utterance.onend = null;
+      utterance.onboundary = null;
       window.speechSynthesis.cancel();
       ttsUtteranceRef.current = null;
     }
   }, [ttsSupported]);
 
+  const stopMic = useCallback(() => {
+    if (recorderRef.current?.state === "recording") {
+      recorderRef.current.stop();
+    }
+    recorderRef.current = null;
+    micSourceRef.current?.disconnect();
+    micSourceRef.current = null;
+    micStreamRef.current?.getTracks().forEach((track) => track.stop());
+    micStreamRef.current = null;
+  }, []);
+
   const cleanupRAF = useCallback(() => {
     if (rafRef.current) {
       cancelAnimationFrame(rafRef.current);
@@ -251,42 +579,159 @@ export const useLipSyncEngine = ({
     }
   }, []);
 
-  const resetLipState = useCallback(() => {
-    setLipState((prev) => ({
-      ...prev,
-      mouthOpen: 0.12,
-      mouthWidth: 0.2,
-      handLeft: 0,
-      handRight: 0,
-      bodySway: 0
-    }));
+  /** Eases a take's first frames in from whatever pose the stage was holding. */
+  const handOff = useCallback((next: LipState, timestamp: number) => {
+    const handoff = handoffRef.current;
+    if (!handoff) return next;
+    handoff.start ??= timestamp;
+    const amount = transitionProgress((timestamp - handoff.start) / 1000, HANDOFF_TIME);
+    if (amount >= 1) handoffRef.current = null;
+    return blendLipStates(handoff.from, next, amount);
+  }, []);
+
+  /** In a dialogue scene, the whole cast's states given the current speaker's. */
+  const castStatesFor = useCallback((state: LipState, time: number, engagement: number) => {
+    const scene = dialogueRef.current;
+    if (!scene) return null;
+    const { cast } = scene;
+    return castStatesAt(cast, sceneTurnsRef.current, state, time, seedRef.current, engagement);
   }, []);
 
+  const publishFrame = useCallback(
+    (state: LipState, time: number, engagement: number) => {
+      setLipState(state);
+      setCastStates(castStatesFor(state, time, engagement));
+    },
+    [castStatesFor]
+  );
+
   const shutdownPlayback = useCallback(() => {
     cleanupRAF();
     stopSpeechSynthesis();
+    stopMic();
     const audio = audioRef.current;
     if (audio) {
       audio.pause();
       audio.currentTime = 0;
     }
     setIsSpeaking(false);
-    exportResolveRef.current?.();
-    exportResolveRef.current = null;
-  }, [cleanupRAF, stopSpeechSynthesis]);
+    pausedAtRef.current = null;
+    setIsPaused(false);
+  }, [cleanupRAF, stopMic, stopSpeechSynthesis]);
 
   useEffect(() => shutdownPlayback, [shutdownPlayback]);
 
+  const baseEmotionAt = useCallback((now: number) => {
+    const { from, to, start } = emotionTransitionRef.current;
+    const progress = transitionProgress((now - start) / 1000, transitionTimeRef.current);
+    return blendEmotions(from, to, progress);
+  }, []);
+
+  /**
+   * Picking a new emotion eases into it instead of cutting. The take loop or
+   * the idle loop, whichever is running, picks the transition up.
+   */
+  useEffect(() => {
+    const now = performance.now();
+    emotionTransitionRef.current = { from: baseEmotionAt(now), to: emotion, start: now };
+  }, [baseEmotionAt, emotion]);
+
+  /**
+   * Keeps the avatar alive between takes with breathing, blinks and a
+   * wandering gaze, eased in from wherever the last take left off. Browsers
+   * pause animation frames in hidden tabs, so this only runs while visible.
+   */
+  useEffect(() => {
+    if (!hasWindow || isSpeaking || exportProgress !== null) return;
+    const from = lipStateRef.current;
+    let start: number | null = null;
+    let frame = 0;
+    const idle = (timestamp: number) => {
+      // A take has scheduled its own loop; it owns the stage from here.
+      if (rafRef.current) return;
+      start ??= timestamp;
+      const rest = restingLipState(seedRef.current, timestamp / 1000, baseEmotionAt(timestamp), 0);
+      const amount = transitionProgress((timestamp - start) / 1000, HANDOFF_TIME);
+      publishFrame(amount < 1 ? blendLipStates(from, rest, amount) : rest, timestamp / 1000, 0);
+      frame = requestAnimationFrame(idle);
+    };
+    frame = requestAnimationFrame(idle);
+    return () => cancelAnimationFrame(frame);
+  }, [baseEmotionAt, exportProgress, isSpeaking, publishFrame]);
+
+  const composeLipState = useCallback(
+    (
+      timestamp: number,
+      mouth: number,
+      width: number,
+      visemes: VisemeWeights,
+      playhead: number
+    ): LipState => {
+      const mood = emotionAt(
+        timelineEventsRef.current,
+        playhead,
+        baseEmotionAt(timestamp),
+        transitionTimeRef.current
+      );
+      const motion = idleMotion(seedRef.current, playhead, mood, mouth);
+      const base = restArms(motion.handLeft, motion.handRight);
+      const { arms, head } = sampleGestures(timelineEventsRef.current, playhead, base);
+
+      return {
+        ...motion,
+        mouthOpen: mouth,
+        mouthWidth: width,
+        eyebrowLift: mood.browLift + mouth * 0.25 + head.eyebrowLift,
+        headYaw: motion.headYaw + head.headYaw,
+        headPitch: motion.headPitch + head.headPitch,
+        headRoll: motion.headRoll + head.headRoll,
+        handLeft: motion.handLeft + armLift(arms.left, base.left),
+        handRight: motion.handRight + armLift(arms.right, base.right),
+        arms,
+        visemes,
+        mood
+      };
+    },
+    [baseEmotionAt]
+  );
+
   const updateLoop = useCallback(
     (timestamp: number) => {
       const analyser = analyserRef.current;
       const dataArray = audioDataRef.current;
-      const random = randomRef.current;
       let mouth = 0.15;
       let width = 0.2;
+      let visemes = createVisemeWeights();
+      let playhead = audioRef.current?.currentTime ?? 0;
       const elapsed = (timestamp - startTimeRef.current) / 1000;
 
-      if (modeRef.current === "audio" && analyser && dataArray) {
+      const importedTrack = animationTrackRef.current;
+      if (importedTrack) {
+        if (!elementSourceRef.current) playhead = elapsed;
+        if (!elementSourceRef.current && playhead > importedTrack.duration + 0.2) {
+          shutdownPlayback();
+          return;
+        }
+        const state = sampleAnimationTrack(importedTrack, playhead);
+        publishFrame(handOff(state, timestamp), playhead, 1);
+        setPlaybackTime(playhead);
+        rafRef.current = requestAnimationFrame(updateLoop);
+        return;
+      }
+
+      const elementTrack =
+        elementSourceRef.current === "speech"
+          ? speechRef.current?.track ?? []
+          : elementSourceRef.current === "upload"
+            ? audioTrackRef.current
+            : [];
+      if (elementTrack.length && audioRef.current) {
+        const viseme = sampleViseme(elementTrack, audioRef.current.currentTime);
+        mouth = viseme.mouth;
+        width = viseme.width;
+        visemes = viseme.visemes;
+      } else if (modeRef.current !== "text" && analyser && dataArray) {
+        if (modeRef.current === "mic") playhead = elapsed;
         const byteArray = dataArray as unknown as Uint8Array<ArrayBuffer>;
         analyser.getByteTimeDomainData(byteArray);
         let sum = 0;
@@ -295,136 +740,471 @@ export const useLipSyncEngine = ({
           sum += value * value;
         }
         const rms = Math.sqrt(sum / byteArray.length);
-        mouth = clamp(rms * 4 + emotion.mouthEnergy * 0.35, 0.05, 1);
-        width = clamp(rms * 2.8 + 0.25, 0.05, 0.9);
+        const level = clamp(rms * 4, 0, 1);
+        let viseme: Viseme = "sil";
+        const frequencyData = frequencyDataRef.current as Uint8Array<ArrayBuffer> | null;
+        if (level > 0.08 && frequencyData) {
+          analyser.getByteFrequencyData(frequencyData);
+          const power = decibelBytesToPower(
+            frequencyData,
+            analyser.minDecibels,
+            analyser.maxDecibels
+          );
+          const binHz = analyser.context.sampleRate / analyser.fftSize;
+          viseme = classifySpectrum(measureBands(power, binHz));
+        }
+        visemes = mixVisemeWeights(
+          liveVisemesRef.current,
+          createVisemeWeights(viseme, viseme === "sil" ? 1 : level),
+          0.55
+        );
+        liveVisemesRef.current = visemes;
+        const shape = getMouthShape(visemes);
+        mouth = clamp(shape.open * (0.6 + emotion.mouthEnergy * 0.6) + level * 0.15, 0.02, 1);
+        width = clamp(shape.width * (0.9 + emotion.mouthEnergy * 0.2), 0.05, 0.9);
       } else {
-        const viseme = sampleViseme(visemeTimelineRef.current, elapsed);
+        const timelineTime = warpTimeline(timeAnchorRef.current, elapsed);
+        playhead = timelineTime;
+        const viseme = sampleViseme(visemeTimelineRef.current, timelineTime);
         mouth = viseme.mouth;
         width = viseme.width;
-        if (visemeDurationRef.current && elapsed > visemeDurationRef.current + 0.4) {
+        visemes = viseme.visemes;
+        if (visemeDurationRef.current && timelineTime > visemeDurationRef.current + 0.4) {
           shutdownPlayback();
           return;
         }
       }
 
-      const blinkSpeed = 0.45 + random() * 0.35;
-      const blinkPhase = Math.sin(timestamp / (1300 + random() * 400) + seed);
-      const blink = clamp(Math.pow(Math.abs(blinkPhase), 12) * (0.8 + random() * 0.4), 0, 1);
-
-      const emotionInfluence = emotion.handAmplitude;
-      const headYaw =
-        Math.sin(timestamp / (2300 + emotion.gazeIntensity * 300) + seed) * 0.25 +
-        mouth * 0.08 * (emotion.gazeIntensity + 0.2);
-      const headPitch =
-        Math.sin(timestamp / (3100 + random() * 500)) * 0.18 +
-        (emotion.browLift * 0.15 - 0.05);
-      const headRoll = Math.sin(timestamp / (4100 + random() * 500)) * 0.14;
-      const gazeX =
-        Math.sin(timestamp / (1600 + random() * 600)) * 0.45 * (emotion.gazeIntensity + 0.3);
-      const gazeY =
-        Math.sin(timestamp / (2100 + random() * 700) + 0.5) * 0.35 * (emotion.gazeIntensity + 0.2);
-      const handLeft =
-        mouth * (0.5 + emotionInfluence) + Math.sin(timestamp / 800 + random() * 2) * 0.2;
-      const handRight =
-        mouth * (0.45 + emotionInfluence * 1.1) + Math.sin(timestamp / 900 + random() * 2) * 0.25;
-      const bodySway = Math.sin(timestamp / 2500) * 0.25 + mouth * 0.2;
-
-      setLipState({
-        mouthOpen: mouth,
-        mouthWidth: width,
-        blink: blink * (1 - emotion.gazeIntensity * 0.2),
-        eyebrowLift: emotion.browLift + mouth * 0.25,
-        headYaw,
-        headPitch,
-        headRoll,
-        gazeX,
-        gazeY,
-        handLeft,
-        handRight,
-        bodySway
-      });
+      publishFrame(
+        handOff(composeLipState(timestamp, mouth, width, visemes, playhead), timestamp),
+        playhead,
+        1
+      );
+      setPlaybackTime(playhead);
 
       rafRef.current = requestAnimationFrame(updateLoop);
     },
-    [emotion, seed, shutdownPlayback]
+    [composeLipState, emotion, handOff, publishFrame, shutdownPlayback]
+  );
+
+  const prepareTextTimeline = useCallback(() => {
+    const take = script.text.trim() ? script : parseScript("Hello, the stage is ready.", []);
+    const { frames, duration, words, events, cueEvents } = buildVisemeTimeline(
+      take,
+      emotion,
+      seed,
+      emotionKeyframes,
+      transitionTime,
+      autoGestures
+    );
+    visemeTimelineRef.current = frames;
+    visemeDurationRef.current = duration;
+    wordTimingsRef.current = words;
+    timelineEventsRef.current = events;
+    cueEventsRef.current = cueEvents;
+    sceneTurnsRef.current = dialogue ? timeTurns(dialogue.turns, words) : [];
+    timeAnchorRef.current = null;
+    spokenScriptRef.current = take;
+    return take;
+  }, [autoGestures, dialogue, emotion, emotionKeyframes, script, seed, transitionTime]);
+
+  /**
+   * Synthesizes each pause-delimited chunk separately and joins them with
+   * real silence, so markup pauses survive backends that ignore them.
+   */
+  const synthesizeSpeech = useCallback(
+    async (backend: SpeechBackend, take: ParsedScript) => {
+      const chunks = splitSpeechChunks(take).map((chunk) => ({
+        start: chunk.start,
+        end: chunk.end,
+        text: take.text.slice(chunk.start, chunk.end).trim(),
+        pauseAfter: chunk.pauseAfter,
+        prosody: chunkProsody(take, chunk, emotion, dialogueRef.current)
+      }));
+      const key = JSON.stringify([backend.id, chunks]);
+      const cached = speechRef.current;
+      if (cached?.key === key) return cached;
+      setIsSynthesizing(true);
+      try {
+        const clips: SpeechClip[] = [];
+        const voiced: typeof chunks = [];
+        let silence = 0;
+        for (const chunk of chunks) {
+          if (chunk.text) {
+            clips.push({
+              blob: await backend.synthesize(chunk.text, chunk.prosody),
+              silenceBefore: silence
+            });
+            voiced.push(chunk);
+            silence = 0;
+          }
+          silence += chunk.pauseAfter;
+        }
+        const { blob, spans } = await joinSpeechClips(clips, silence);
+        const features = analyzeAudioBuffer(await decodeAudioFile(blob));
+        if (cached) {
+          URL.revokeObjectURL(cached.url);
+        }
+        const speech: SynthesizedSpeech = {
+          key,
+          blob,
+          url: URL.createObjectURL(blob),
+          track: buildAudioVisemeTrack(features, emotion),
+          spans: spans.map((span, index) => ({
+            ...span,
+            charStart: voiced[index].start,
+            charEnd: voiced[index].end
+          }))
+        };
+        speechRef.current = speech;
+        return speech;
+      } finally {
+        setIsSynthesizing(false);
+      }
+    },
+    [emotion]
+  );
+
+  /**
+   * Moves the prepared take onto the synthesized audio clip by clip: script
+   * events and dialogue turns follow the words around them, and emotion
+   * keyframes keep their place as a fraction of the real duration, which is
+   * returned.
+   */
+  const alignToSpeech = useCallback(
+    (speech: SynthesizedSpeech) => {
+      const duration = speech.track[speech.track.length - 1]?.time ?? 0;
+      const warp = speechTimeWarp(wordTimingsRef.current, speech.spans);
+      timelineEventsRef.current = withKeyframes(
+        cueEventsRef.current.map((event) => ({ ...event, time: warp(event.time) })),
+        emotionKeyframes,
+        duration
+      );
+      const scene = dialogueRef.current;
+      sceneTurnsRef.current = scene
+        ? timeTurns(scene.turns, retimeWords(wordTimingsRef.current, speech.spans))
+        : [];
+      return duration;
+    },
+    [emotionKeyframes]
+  );
+
+  const playElementSource = useCallback(
+    async (source: ElementSource, url: string) => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      const ctx = audioContextRef.current;
+      if (ctx?.state === "suspended") {
+        await ctx.resume();
+      }
+      if (audio.src !== url) {
+        audio.src = url;
+        audio.load();
+      }
+      elementSourceRef.current = source;
+      audio.currentTime = 0;
+      await audio.play();
+      setIsSpeaking(true);
+      rafRef.current = requestAnimationFrame(updateLoop);
+      audio.onended = () => {
+        shutdownPlayback();
+      };
+    },
+    [shutdownPlayback, updateLoop]
+  );
+
+  /**
+   * Speaks the script with the browser voice starting from the word at
+   * `timelineTime`. Speech synthesis cannot seek, so pausing and seeking
+   * restart from that word and shift boundary offsets to match. Each
+   * pause-delimited chunk is its own utterance, with the pause timed in between.
+   */
+  const speakFrom = useCallback(
+    (timelineTime: number) => {
+      const take = spokenScriptRef.current;
+      if (!take) return;
+      const timings = wordTimingsRef.current;
+      let fromIndex = 0;
+      for (let i = 0; i < timings.length && timings[i].start <= timelineTime; i += 1) {
+        fromIndex = i;
+      }
+      const from = timings[fromIndex];
+      stopSpeechSynthesis();
+      startTimeRef.current = performance.now() - (from?.start ?? 0) * 1000;
+      timeAnchorRef.current = null;
+
+      const chunks = splitSpeechChunks(take);
+      const fromChar = from?.charIndex ?? 0;
+      const firstChunk = Math.max(0, chunks.findIndex((chunk) => fromChar < chunk.end));
+
+      const handleBoundary = (offset: number) => (event: SpeechSynthesisEvent) => {
+        if (event.name !== "word" && event.name !== "sentence") return;
+        const charIndex = event.charIndex + offset;
+        let wordIndex = -1;
+        for (let i = 0; i < timings.length && timings[i].charIndex <= charIndex; i += 1) {
+          wordIndex = i;
+        }
+        const previous = timeAnchorRef.current;
+        if (wordIndex < 0 || wordIndex === previous?.wordIndex) return;
+        const elapsed = (performance.now() - startTimeRef.current) / 1000;
+        const word = timings[wordIndex];
+        const rate =
+          previous && elapsed > previous.elapsed
+            ? clamp((word.start - previous.timeline) / (elapsed - previous.elapsed), 0.5, 2)
+            : 1;
+        timeAnchorRef.current = {
+          wordIndex,
+          elapsed,
+          timeline: word.start,
+          rate,
+          limit: timings[wordIndex + 1]?.start ?? visemeDurationRef.current
+        };
+      };
+
+      const speakChunk = (index: number) => {
+        const chunk = chunks[index];
+        if (!chunk) {
+          shutdownPlayback();
+          return;
+        }
+        const offset = index === firstChunk ? Math.max(chunk.start, fromChar) : chunk.start;
+        const next = () => {
+          if (chunk.pauseAfter > 0 && index + 1 < chunks.length) {
+            pauseTimerRef.current = window.setTimeout(
+              () => speakChunk(index + 1),
+              chunk.pauseAfter * 1000
+            );
+          } else {
+            speakChunk(index + 1);
+          }
+        };
+        const text = take.text.slice(offset, chunk.end);
+        if (!text.trim()) {
+          next();
+          return;
+        }
+
+        const utterance = new SpeechSynthesisUtterance(text);
+        const prosody = chunkProsody(take, chunk, emotion, dialogueRef.current);
+        utterance.voice =
+          window.speechSynthesis.getVoices().find((voice) => voice.name === prosody.voice) ?? null;
+        utterance.pitch = prosody.pitch;
+        utterance.rate = prosody.rate;
+        utterance.volume = prosody.volume;
+        ttsUtteranceRef.current = utterance;
+        utterance.onend = next;
+        utterance.onboundary = handleBoundary(offset);
+        window.speechSynthesis.speak(utterance);
+      };
+
+      window.speechSynthesis.cancel();
+      speakChunk(firstChunk);
+    },
+    [emotion, shutdownPlayback, stopSpeechSynthesis]
+  );
+
+  /**
+   * Feeds a live mic stream into the shared analyser. The analyser is never
+   * connected to the speakers, so nothing is played back and the only latency
+   * is one analyser frame. With `record`, the take is also captured so it can
+   * be loaded later as an uploaded track.
+   */
+  const startMic = useCallback(
+    async (record: boolean) => {
+      const ctx = ensureAudioContext();
+      const analyser = ensureAnalyser();
+      if (!ctx || !analyser) return false;
+      if (ctx.state === "suspended") {
+        await ctx.resume();
+      }
+      setMicError(null);
+      let stream: MediaStream;
+      try {
+        stream = await micStreamFactory(ctx);
+      } catch (error) {
+        console.error("Microphone unavailable", error);
+        setMicError(
+          error instanceof DOMException && error.name === "NotAllowedError"
+            ? "Microphone access was denied."
+            : "No microphone is available."
+        );
+        return false;
+      }
+      micStreamRef.current = stream;
+      const source = ctx.createMediaStreamSource(stream);
+      source.connect(analyser);
+      micSourceRef.current = source;
+
+      if (record && typeof MediaRecorder !== "undefined") {
+        const { recorder, finished } = createMicRecorder(stream);
+        recorderRef.current = recorder;
+        setIsRecording(true);
+        void finished.then((file) => {
+          setIsRecording(false);
+          if (file) setMicRecording(file);
+        });
+      }
+      return true;
+    },
+    [ensureAnalyser, ensureAudioContext, micStreamFactory]
   );
 
   const startPreview = useCallback(
     async (options?: StartPreviewOptions) => {
       const sourceMode = options?.sourceMode ?? modeRef.current;
       modeRef.current = sourceMode;
-      if (!options?.fromExport) {
-        resetLipState();
-      }
       if (!options?.forceRestart && isSpeaking) return;
+      handoffRef.current = { from: lipStateRef.current, start: null };
 
       cleanupRAF();
+      elementSourceRef.current = null;
+      pausedAtRef.current = null;
+      setIsPaused(false);
+      setPlaybackTime(0);
 
       const now = performance.now();
       startTimeRef.current = now;
+      sceneTurnsRef.current = [];
+
+      const importedTrack = animationTrackRef.current;
+      if (importedTrack && sourceMode !== "mic") {
+        // Only an uploaded recording can play in step with a track; the
+        // voices follow their own timing, so text takes preview silently.
+        timelineEventsRef.current = [];
+        setTimeline({ duration: importedTrack.duration, markers: [] });
+        const url = objectUrlRef.current;
+        if (sourceMode === "audio" && hasAudioLoaded && url && ensureAnalyser()) {
+          await playElementSource("upload", url);
+        } else {
+          setIsSpeaking(true);
+          rafRef.current = requestAnimationFrame(updateLoop);
+        }
+        return;
+      }
 
       if (sourceMode === "audio") {
         const analyser = ensureAnalyser();
-        if (!analyser || !hasAudioLoaded) return;
-        const ctx = audioContextRef.current;
-        if (ctx?.state === "suspended") {
-          await ctx.resume();
-        }
-        const audio = audioRef.current;
-        if (!audio) return;
-        audio.currentTime = 0;
-        await audio.play();
+        const url = objectUrlRef.current;
+        if (!analyser || !hasAudioLoaded || !url) return;
+        timelineEventsRef.current = [];
+        await playElementSource("upload", url);
+        const track = audioTrackRef.current;
+        const duration = audioRef.current?.duration || track[track.length - 1]?.time || 0;
+        timelineEventsRef.current = withKeyframes([], emotionKeyframes, duration);
+        setTimeline({ duration, markers: [] });
+      } else if (sourceMode === "mic") {
+        if (!(await startMic(Boolean(options?.record)))) return;
+        timelineEventsRef.current = [];
+        setTimeline({ duration: 0, markers: [] });
         setIsSpeaking(true);
         rafRef.current = requestAnimationFrame(updateLoop);
-        audio.onended = () => {
-          shutdownPlayback();
-        };
       } else {
-        if (!ttsSupported) return;
         stopSpeechSynthesis();
-        const text = script.trim() || "Hello, the stage is ready.";
-        const { frames, duration } = buildVisemeTimeline(text, emotion, seed);
-        visemeTimelineRef.current = frames;
-        visemeDurationRef.current = duration;
+        const take = prepareTextTimeline();
 
-        const utterance = new SpeechSynthesisUtterance(text);
-        const pitchBase = 1 + (emotion.browLift * 0.5);
-        const rateBase = 1 + (emotion.mouthEnergy - 0.5) * 0.4;
-        const volumeBase = clamp(0.8 + emotion.handAmplitude * 0.3, 0.4, 1);
-        utterance.pitch = clamp(pitchBase, 0.6, 1.6);
-        utterance.rate = clamp(rateBase, 0.7, 1.5);
-        utterance.volume = volumeBase;
-        ttsUtteranceRef.current = utterance;
-        utterance.onend = () => {
-          shutdownPlayback();
-        };
+        if (speechBackend) {
+          try {
+            const speech = await synthesizeSpeech(speechBackend, take);
+            const duration = alignToSpeech(speech);
+            await playElementSource("speech", speech.url);
+            setTimeline({
+              duration,
+              markers: retimeWords(wordTimingsRef.current, speech.spans).map((word) => ({
+                label: word.text,
+                time: word.start
+              }))
+            });
+            return;
+          } catch (error) {
+            console.warn("Speech backend failed, previewing with the browser voice", error);
+          }
+        }
+        if (!ttsSupported) return;
 
-        window.speechSynthesis.cancel();
-        window.speechSynthesis.speak(utterance);
+        speakFrom(0);
+        setTimeline({
+          duration: visemeDurationRef.current,
+          markers: wordTimingsRef.current.map((word) => ({ label: word.text, time: word.start }))
+        });
         setIsSpeaking(true);
         rafRef.current = requestAnimationFrame(updateLoop);
       }
     },
     [
       cleanupRAF,
+      emotionKeyframes,
       isSpeaking,
       ensureAnalyser,
       hasAudioLoaded,
       updateLoop,
       ttsSupported,
       stopSpeechSynthesis,
-      script,
-      emotion,
-      seed,
-      resetLipState,
-      shutdownPlayback
+      prepareTextTimeline,
+      playElementSource,
+      speechBackend,
+      synthesizeSpeech,
+      alignToSpeech,
+      speakFrom,
+      startMic
     ]
   );
 
+  const pausePreview = useCallback(() => {
+    if (!isSpeaking || pausedAtRef.current !== null || modeRef.current === "mic") return;
+    cleanupRAF();
+    pausedAtRef.current = performance.now();
+    if (elementSourceRef.current) {
+      audioRef.current?.pause();
+    } else {
+      stopSpeechSynthesis();
+    }
+    setIsPaused(true);
+  }, [cleanupRAF, isSpeaking, stopSpeechSynthesis]);
+
+  const resumePreview = useCallback(async () => {
+    const pausedAt = pausedAtRef.current;
+    if (pausedAt === null) return;
+    pausedAtRef.current = null;
+    setIsPaused(false);
+    if (elementSourceRef.current) {
+      await audioRef.current?.play();
+    } else if (animationTrackRef.current) {
+      startTimeRef.current += performance.now() - pausedAt;
+    } else {
+      const elapsed = (pausedAt - startTimeRef.current) / 1000;
+      speakFrom(warpTimeline(timeAnchorRef.current, elapsed));
+    }
+    rafRef.current = requestAnimationFrame(updateLoop);
+  }, [speakFrom, updateLoop]);
+
+  /**
+   * Moves the playhead. The browser voice can only restart from a word, so it
+   * re-speaks once a scrub is `settled` rather than on every step of a drag.
+   */
+  const seek = useCallback(
+    (seconds: number, settled = true) => {
+      if (!isSpeaking || modeRef.current === "mic") return;
+      const time = clamp(seconds, 0, timeline.duration);
+      setPlaybackTime(time);
+      if (elementSourceRef.current) {
+        if (audioRef.current) {
+          audioRef.current.currentTime = time;
+        }
+      } else if (pausedAtRef.current !== null) {
+        startTimeRef.current = pausedAtRef.current - time * 1000;
+        timeAnchorRef.current = null;
+      } else if (animationTrackRef.current) {
+        startTimeRef.current = performance.now() - time * 1000;
+      } else if (settled) {
+        speakFrom(time);
+      }
+    },
+    [isSpeaking, speakFrom, timeline.duration]
+  );
+
   const stopPreview = useCallback(() => {
     shutdownPlayback();
-    resetLipState();
-  }, [resetLipState, shutdownPlayback]);
+  }, [shutdownPlayback]);
 
   const loadAudioFile = useCallback(
     (file: File) => {
@@ -436,114 +1216,244 @@ export const useLipSyncEngine = ({
       }
       const objectUrl = URL.createObjectURL(file);
       objectUrlRef.current = objectUrl;
+      audioFileRef.current = file;
       audio.src = objectUrl;
       audio.load();
       setHasAudioLoaded(true);
+
+      const analysisId = analysisIdRef.current + 1;
+      analysisIdRef.current = analysisId;
+      setAudioFeatures(null);
+      setIsAnalyzingAudio(true);
+      decodeAudioFile(file)
+        .then((buffer) => {
+          if (analysisIdRef.current !== analysisId) return;
+          setAudioFeatures(analyzeAudioBuffer(buffer));
+        })
+        .catch((error) => {
+          console.error("Audio analysis failed, falling back to live levels", error);
+        })
+        .finally(() => {
+          if (analysisIdRef.current === analysisId) {
+            setIsAnalyzingAudio(false);
+          }
+        });
     },
     []
   );
 
-  const registerStageCanvas = useCallback((canvas: HTMLCanvasElement | null) => {
-    stageCanvasRef.current = canvas;
+  const clearAudioFile = useCallback(() => {
+    shutdownPlayback();
+    analysisIdRef.current += 1;
+    const audio = audioRef.current;
+    const objectUrl = objectUrlRef.current;
+    if (objectUrl) {
+      if (audio?.src === objectUrl) {
+        audio.removeAttribute("src");
+        audio.load();
+      }
+      URL.revokeObjectURL(objectUrl);
+      objectUrlRef.current = null;
+    }
+    audioFileRef.current = null;
+    setAudioFeatures(null);
+    setIsAnalyzingAudio(false);
+    setHasAudioLoaded(false);
+  }, [shutdownPlayback]);
+
+  const registerStageRenderer = useCallback((renderer: StageRenderer | null) => {
+    stageRendererRef.current = renderer;
   }, []);
 
-  const exportVideo = useCallback(async (): Promise<ExportResult> => {
-    if (!hasWindow) return null;
-    const canvas = stageCanvasRef.current;
-    if (!canvas) return null;
-
-    const stream = canvas.captureStream(60);
-    const audioEl = audioRef.current;
-    try {
-      if (modeRef.current === "audio" && audioEl && "captureStream" in audioEl) {
-        const audioStream = (audioEl as HTMLMediaElement & {
-          captureStream?: () => MediaStream;
-        }).captureStream?.();
-        if (audioStream?.getAudioTracks().length) {
-          const [track] = audioStream.getAudioTracks();
-          stream.addTrack(track);
-        }
+  /** The prepared take's words, re-timed onto each synthesized clip when `spans` are given. */
+  const captionWords = useCallback((spans: CaptionSpan[] = []) => {
+    const scene = dialogueRef.current;
+    return retimeWords(wordTimingsRef.current, spans).map((word) => ({
+      text: word.text,
+      start: word.start,
+      end: word.end,
+      speaker: scene ? speakerAtChar(scene, word.charIndex)?.name : undefined
+    }));
+  }, []);
+
+  /**
+   * Lays out a take for offline sampling: how long it runs, the audio that
+   * goes with it, its captions and the lip state at any time. An imported
+   * track replaces the engine's motion but still takes the uploaded audio in
+   * audio mode. Only text takes know their words, so only they get captions.
+   */
+  const prepareOfflineTake = useCallback(
+    async (sourceMode: VoiceMode) => {
+      if (sourceMode === "mic") {
+        throw new Error("Live mic takes can't be exported; use the recording as an audio track");
+      }
+      const importedTrack = animationTrackRef.current;
+      if (importedTrack) {
+        sceneTurnsRef.current = [];
+        return {
+          duration: importedTrack.duration,
+          audio: sourceMode === "audio" ? audioFileRef.current : null,
+          captions: [] as CaptionCue[],
+          sample: (time: number) => sampleAnimationTrack(importedTrack, time)
+        };
       }
-    } catch {
-      // ignore capture failures
-    }
 
-    const chunks: BlobPart[] = [];
-    const recorder = new MediaRecorder(stream, {
-      mimeType: "video/webm;codecs=vp9"
-    });
-    const exportPromise = new Promise<void>((resolve) => {
-      exportResolveRef.current = resolve;
-    });
-
-    recorder.ondataavailable = (event) => {
-      if (event.data.size > 0) {
-        chunks.push(event.data);
+      let track: VisemeFrame[];
+      let duration: number;
+      let audio: Blob | null = null;
+      let captions: CaptionCue[] = [];
+      if (sourceMode === "audio") {
+        if (!audioTrackRef.current.length) {
+          throw new Error("Audio analysis has not finished yet");
+        }
+        track = audioTrackRef.current;
+        duration = track[track.length - 1].time;
+        timelineEventsRef.current = withKeyframes([], emotionKeyframes, duration);
+        sceneTurnsRef.current = [];
+        audio = audioFileRef.current;
+      } else if (speechBackend) {
+        const speech = await synthesizeSpeech(speechBackend, prepareTextTimeline());
+        duration = alignToSpeech(speech);
+        track = speech.track;
+        audio = speech.blob;
+        captions = buildCaptionCues(captionWords(speech.spans));
+      } else {
+        // The browser voice cannot be captured, so these exports stay silent.
+        prepareTextTimeline();
+        track = visemeTimelineRef.current;
+        duration = visemeDurationRef.current;
+        captions = buildCaptionCues(captionWords());
       }
-    };
-    recorder.start();
 
-    await startPreview({ forceRestart: true, fromExport: true });
-    await new Promise((resolve) => setTimeout(resolve, EXPORT_DURATION_MS));
-    recorder.stop();
-    shutdownPlayback();
-    await exportPromise;
+      emotionTransitionRef.current = { from: emotion, to: emotion, start: 0 };
+      return {
+        duration,
+        audio,
+        captions,
+        sample: (time: number) => {
+          const viseme = sampleViseme(track, time);
+          return composeLipState(time * 1000, viseme.mouth, viseme.width, viseme.visemes, time);
+        }
+      };
+    },
+    [
+      alignToSpeech,
+      captionWords,
+      composeLipState,
+      emotion,
+      emotionKeyframes,
+      prepareTextTimeline,
+      speechBackend,
+      synthesizeSpeech
+    ]
+  );
 
-    const webmBlob = new Blob(chunks, { type: "video/webm" });
+  const exportVideo = useCallback(
+    async (options?: ExportOptions): Promise<ExportResult> => {
+      if (!hasWindow) return null;
+      const stage = stageRendererRef.current;
+      if (!stage) return null;
+      shutdownPlayback();
 
-    const convertWebmToMp4 = async () => {
+      const settings = options?.settings ?? defaultExportSettings;
+      const take = await prepareOfflineTake(options?.sourceMode ?? modeRef.current);
+
+      setExportProgress(0);
       try {
-        const ffmpegImport = (await import("@ffmpeg/ffmpeg")) as any;
-        const { createFFmpeg, fetchFile } = ffmpegImport;
-        if (!hasWindow) return webmBlob;
-        const ffmpegModule = createFFmpeg({
-          log: false,
-          corePath: "https://unpkg.com/@ffmpeg/core@0.12.6/dist/ffmpeg-core.js"
+        const encoder = await createFrameEncoder(settings);
+        const captions =
+          settings.burnCaptions && take.captions.length
+            ? createCaptionCompositor(settings.width, settings.height)
+            : null;
+        stage.setOffline(true, {
+          width: settings.width,
+          height: settings.height,
+          duration: take.duration,
+          transparent: settings.transparent && exportFormats[settings.format].supportsAlpha
         });
-        if (!ffmpegModule.isLoaded()) {
-          await ffmpegModule.load();
+        const frameCount = Math.max(1, Math.ceil(take.duration * settings.fps));
+        for (let frame = 0; frame < frameCount; frame += 1) {
+          const time = frame / settings.fps;
+          const state = take.sample(time);
+          await stage.renderFrame(time, state, castStatesFor(state, time, 1));
+          const canvas = captions
+            ? captions.compose(stage.canvas, take.captions, time)
+            : stage.canvas;
+          await encoder.addFrame(await captureCanvasFrame(canvas, encoder.frameType));
+          setExportProgress((frame + 1) / frameCount);
         }
-        ffmpegModule.FS("writeFile", "input.webm", await fetchFile(webmBlob));
-        await ffmpegModule.run(
-          "-i",
-          "input.webm",
-          "-c:v",
-          "libx264",
-          "-preset",
-          "veryfast",
-          "-pix_fmt",
-          "yuv420p",
-          "output.mp4"
-        );
-        const data = ffmpegModule.FS("readFile", "output.mp4");
-        ffmpegModule.FS("unlink", "input.webm");
-        ffmpegModule.FS("unlink", "output.mp4");
-        return new Blob([data.buffer], { type: "video/mp4" });
-      } catch (error) {
-        console.error("ffmpeg conversion failed, returning webm", error);
-        return webmBlob;
+        return await encoder.finish(take.audio);
+      } finally {
+        stage.setOffline(false);
+        setExportProgress(null);
       }
-    };
+    },
+    [castStatesFor, prepareOfflineTake, shutdownPlayback]
+  );
 
-    return convertWebmToMp4();
-  }, [shutdownPlayback, startPreview]);
+  /** Samples the take's lip state at a fixed rate without rendering anything. */
+  const captureTrack = useCallback(
+    async (options?: TrackOptions): Promise<AnimationTrack> => {
+      shutdownPlayback();
+      const fps = options?.fps ?? defaultExportSettings.fps;
+      const take = await prepareOfflineTake(options?.sourceMode ?? modeRef.current);
+      const frameCount = Math.max(1, Math.ceil(take.duration * fps));
+      const frames = Array.from({ length: frameCount }, (_, frame) => {
+        const time = frame / fps;
+        return { ...take.sample(time), time };
+      });
+      return { fps, duration: frames[frames.length - 1].time, frames };
+    },
+    [prepareOfflineTake, shutdownPlayback]
+  );
+
+  /** Caption cues for the take, timed exactly as an export would render it. */
+  const captureCaptions = useCallback(
+    async (options?: { sourceMode?: VoiceMode }): Promise<CaptionCue[]> => {
+      shutdownPlayback();
+      const take = await prepareOfflineTake(options?.sourceMode ?? modeRef.current);
+      return take.captions;
+    },
+    [prepareOfflineTake, shutdownPlayback]
+  );
 
   useEffect(() => () => {
     if (objectUrlRef.current) {
       URL.revokeObjectURL(objectUrlRef.current);
     }
+    if (speechRef.current) {
+      URL.revokeObjectURL(speechRef.current.url);
+    }
   }, []);
 
   return {
     lipState,
+    castStates,
     isSpeaking,
+    isPaused,
+    playbackTime,
+    timeline,
     startPreview,
     stopPreview,
+    pausePreview,
+    resumePreview,
+    seek,
     loadAudioFile,
+    clearAudioFile,
     hasAudioLoaded,
+    isAnalyzingAudio,
+    isSynthesizing,
     ttsSupported,
-    registerStageCanvas,
+    micSupported,
+    micError,
+    isRecording,
+    micRecording,
+    textVoiceReady: ttsSupported || Boolean(speechBackend),
+    registerStageRenderer,
     exportVideo,
+    exportProgress,
+    captureTrack,
+    captureCaptions,
     audioElement: audioRef.current
   };
 };
@@ -0,0 +1,58 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { StudioProject } from "@/lib/project";
+import {
+  deleteProject,
+  listRecentProjects,
+  saveProject,
+  type RecentProject
+} from "@/lib/projectStore";
+
+const AUTOSAVE_DELAY = 1_500;
+
+/**
+ * Writes the project to IndexedDB shortly after it stops changing. Nothing is
+ * saved until the studio has picked a project ID, and the first snapshot after
+ * that is the untouched default, so it is not saved either.
+ */
+export const useProjectAutosave = (projectId: string | null, project: StudioProject) => {
+  const [recentProjects, setRecentProjects] = useState<RecentProject[]>([]);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const initialRef = useRef<StudioProject | null | undefined>(undefined);
+
+  const refresh = useCallback(() => {
+    listRecentProjects()
+      .then(setRecentProjects)
+      .catch((error) => console.warn("Could not list saved projects", error));
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  useEffect(() => {
+    if (!projectId) return;
+    if (initialRef.current === undefined) initialRef.current = project;
+    if (initialRef.current === project) return;
+    initialRef.current = null;
+    const timer = window.setTimeout(() => {
+      saveProject(projectId, project)
+        .then(() => {
+          setLastSavedAt(Date.now());
+          refresh();
+        })
+        .catch((error) => console.warn("Autosave failed", error));
+    }, AUTOSAVE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [project, projectId, refresh]);
+
+  const removeProject = useCallback(
+    (id: string) => {
+      deleteProject(id)
+        .then(refresh)
+        .catch((error) => console.warn("Could not delete project", error));
+    },
+    [refresh]
+  );
+
+  return { recentProjects, lastSavedAt, removeProject };
+};
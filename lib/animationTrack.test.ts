@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { EmotionPreset } from "@/lib/emotions";
+import {
+  ARKIT_BLENDSHAPES,
+  parseTrackFile,
+  sampleAnimationTrack,
+  serializeTrack,
+  type AnimationTrack,
+  type TrackFrame
+} from "@/lib/animationTrack";
+import { createVisemeWeights } from "@/lib/visemes";
+
+const neutral: EmotionPreset = {
+  id: "neutral",
+  label: "Neutral",
+  description: "",
+  color: "#8899aa",
+  mouthEnergy: 0.5,
+  handAmplitude: 0.4,
+  gazeIntensity: 0.3,
+  browLift: 0
+};
+
+const custom: EmotionPreset = {
+  ...neutral,
+  id: "custom-wry",
+  label: "Wry",
+  color: "#ffaa00",
+  browLift: 0.25
+};
+
+const arm = (raise: number) => ({ raise, spread: 0.1, elbow: 0.25, wrist: 0, fingers: 0.5 });
+
+const frame = (time: number, mouthOpen: number, mood: EmotionPreset): TrackFrame => ({
+  time,
+  mouthOpen,
+  mouthWidth: 0.4,
+  blink: time === 0.5 ? 1 : 0,
+  eyebrowLift: 0.125,
+  headYaw: -0.1,
+  headPitch: 0.05,
+  headRoll: 0,
+  gazeX: 0.2,
+  gazeY: -0.1,
+  handLeft: 0.3,
+  handRight: 0,
+  bodySway: 0.0125,
+  arms: { left: arm(0.5), right: arm(0) },
+  visemes: createVisemeWeights("aa", mouthOpen),
+  mood
+});
+
+const track: AnimationTrack = {
+  fps: 2,
+  duration: 1,
+  frames: [frame(0, 0, neutral), frame(0.5, 0.75, custom), frame(1, 0.25, neutral)]
+};
+
+describe("track round-trip", () => {
+  it("reads back its own JSON, restoring custom moods from the file", async () => {
+    const parsed = await parseTrackFile(serializeTrack(track, "json"), [neutral], neutral);
+    assert.deepEqual(parsed, track);
+  });
+
+  it("reads back its own CSV", async () => {
+    const csv = serializeTrack(track, "csv");
+    assert.equal(csv.type, "text/csv");
+    const parsed = await parseTrackFile(csv, [neutral, custom], neutral);
+    assert.deepEqual(parsed, track);
+  });
+
+  it("falls back to the given mood for ids it does not know", async () => {
+    const parsed = await parseTrackFile(serializeTrack(track, "csv"), [], neutral);
+    assert.ok(parsed.frames.every((item) => item.mood === neutral));
+  });
+
+  it("reads back ARKit CSV with timing, head pose and jaw intact", async () => {
+    // Live Link timecodes only reveal the frame rate once a second has gone by.
+    const recording: AnimationTrack = {
+      fps: 30,
+      duration: 39 / 30,
+      frames: Array.from({ length: 40 }, (_, index) =>
+        frame(index / 30, (index % 10) / 10, neutral)
+      )
+    };
+    const arkit = serializeTrack(recording, "arkit");
+    const [header] = (await arkit.text()).split("\n");
+    assert.deepEqual(header.split(",").slice(2, 2 + ARKIT_BLENDSHAPES.length), [
+      ...ARKIT_BLENDSHAPES
+    ]);
+
+    const parsed = await parseTrackFile(arkit, [], custom);
+    assert.equal(parsed.fps, 30);
+    assert.equal(parsed.frames.length, recording.frames.length);
+    parsed.frames.forEach((item, index) => {
+      const source = recording.frames[index];
+      assert.ok(Math.abs(item.time - source.time) < 1e-9);
+      assert.equal(item.mood, custom);
+      assert.ok(Math.abs(item.headYaw - source.headYaw) < 1e-3);
+      assert.ok(Math.abs(item.gazeX - source.gazeX) < 1e-3);
+    });
+    assert.ok(parsed.frames[9].mouthOpen > parsed.frames[1].mouthOpen);
+  });
+
+  it("gives a single-frame track a usable frame rate", async () => {
+    const single: AnimationTrack = { fps: 30, duration: 0, frames: [frame(0, 0.5, neutral)] };
+    const parsed = await parseTrackFile(serializeTrack(single, "csv"), [neutral], neutral);
+    assert.equal(parsed.fps, 30);
+    const [, row] = (await serializeTrack(parsed, "arkit").text()).split("\n");
+    assert.equal(row.split(",")[0], "00:00:00:00.000");
+  });
+
+  it("rejects files that are not tracks", async () => {
+    await assert.rejects(
+      parseTrackFile(new Blob(['{"frames": []}']), [], neutral),
+      /not a LipState track/
+    );
+    await assert.rejects(parseTrackFile(new Blob(["a,b\n1,2"]), [], neutral), /neither/);
+  });
+});
+
+describe("sampleAnimationTrack", () => {
+  it("interpolates between frames and holds the ends", () => {
+    assert.equal(sampleAnimationTrack(track, 0.25).mouthOpen, 0.375);
+    assert.equal(sampleAnimationTrack(track, -1).mouthOpen, 0);
+    assert.equal(sampleAnimationTrack(track, 5).mouthOpen, 0.25);
+  });
+});
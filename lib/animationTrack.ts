@@ -0,0 +1,523 @@
+import type { EmotionPreset } from "@/lib/emotions";
+import { validateEmotionPreset } from "@/lib/customEmotions";
+import type { LipState } from "@/hooks/useLipSyncEngine";
+import {
+  ARM_JOINTS,
+  mixArms,
+  restArms,
+  type ArmJoint,
+  type ArmPose,
+  type ArmsPose
+} from "@/lib/gestures";
+import { clamp } from "@/lib/math";
+import { blendEmotions } from "@/lib/motion";
+import {
+  createVisemeWeights,
+  getMouthShape,
+  mixVisemeWeights,
+  VISEMES,
+  type Viseme
+} from "@/lib/visemes";
+
+export type TrackFormat = "json" | "csv" | "arkit";
+
+export type TrackFrame = LipState & { time: number };
+
+export type AnimationTrack = {
+  fps: number;
+  duration: number;
+  frames: TrackFrame[];
+};
+
+type TrackFormatInfo = {
+  label: string;
+  extension: string;
+  mimeType: string;
+};
+
+export const trackFormats: Record<TrackFormat, TrackFormatInfo> = {
+  json: { label: "LipState JSON", extension: "lipstate.json", mimeType: "application/json" },
+  csv: { label: "LipState CSV", extension: "lipstate.csv", mimeType: "text/csv" },
+  arkit: { label: "ARKit blendshapes (CSV)", extension: "arkit.csv", mimeType: "text/csv" }
+};
+
+const JSON_FORMAT = "avatar-studio/lipstate";
+const JSON_VERSION = 1;
+
+const LIP_CHANNELS = [
+  "mouthOpen",
+  "mouthWidth",
+  "blink",
+  "eyebrowLift",
+  "headYaw",
+  "headPitch",
+  "headRoll",
+  "gazeX",
+  "gazeY",
+  "handLeft",
+  "handRight",
+  "bodySway"
+] as const satisfies readonly (keyof LipState)[];
+
+type LipChannel = (typeof LIP_CHANNELS)[number];
+
+type ArmSide = keyof ArmsPose;
+
+const ARM_SIDES: ArmSide[] = ["left", "right"];
+
+const ARM_COLUMNS = ARM_SIDES.flatMap((side) =>
+  ARM_JOINTS.map((joint) => ({ side, joint, name: `${side}Arm_${joint}` }))
+);
+
+/** The 52 ARKit face blendshapes, in the column order Live Link Face records them. */
+export const ARKIT_BLENDSHAPES = [
+  "EyeBlinkLeft",
+  "EyeLookDownLeft",
+  "EyeLookInLeft",
+  "EyeLookOutLeft",
+  "EyeLookUpLeft",
+  "EyeSquintLeft",
+  "EyeWideLeft",
+  "EyeBlinkRight",
+  "EyeLookDownRight",
+  "EyeLookInRight",
+  "EyeLookOutRight",
+  "EyeLookUpRight",
+  "EyeSquintRight",
+  "EyeWideRight",
+  "JawForward",
+  "JawRight",
+  "JawLeft",
+  "JawOpen",
+  "MouthClose",
+  "MouthFunnel",
+  "MouthPucker",
+  "MouthRight",
+  "MouthLeft",
+  "MouthSmileLeft",
+  "MouthSmileRight",
+  "MouthFrownLeft",
+  "MouthFrownRight",
+  "MouthDimpleLeft",
+  "MouthDimpleRight",
+  "MouthStretchLeft",
+  "MouthStretchRight",
+  "MouthRollLower",
+  "MouthRollUpper",
+  "MouthShrugLower",
+  "MouthShrugUpper",
+  "MouthPressLeft",
+  "MouthPressRight",
+  "MouthLowerDownLeft",
+  "MouthLowerDownRight",
+  "MouthUpperUpLeft",
+  "MouthUpperUpRight",
+  "BrowDownLeft",
+  "BrowDownRight",
+  "BrowInnerUp",
+  "BrowOuterUpLeft",
+  "BrowOuterUpRight",
+  "CheekPuff",
+  "CheekSquintLeft",
+  "CheekSquintRight",
+  "NoseSneerLeft",
+  "NoseSneerRight",
+  "TongueOut"
+] as const;
+
+type ArkitBlendshape = (typeof ARKIT_BLENDSHAPES)[number];
+
+const ARKIT_POSE_COLUMNS = [
+  "HeadYaw",
+  "HeadPitch",
+  "HeadRoll",
+  "LeftEyeYaw",
+  "LeftEyePitch",
+  "LeftEyeRoll",
+  "RightEyeYaw",
+  "RightEyePitch",
+  "RightEyeRoll"
+] as const;
+
+// Stage rotation per unit of the LipState head and gaze channels, so ARKit
+// poses come out in radians that match what the avatar actually does.
+const HEAD_SCALE = 0.4;
+const GAZE_RANGE = 0.45;
+const EYE_SCALE = 0.35;
+
+const round = (value: number) => Number(value.toFixed(4));
+
+const arkitWeights = (state: LipState): Record<ArkitBlendshape, number> => {
+  const shape = getMouthShape(state.visemes);
+  const jaw = state.mouthOpen * (1 - shape.closure * 0.85);
+  const stretch = clamp((state.mouthWidth - 0.3) * 1.2, 0, 1);
+  const smile = clamp((state.mouthWidth - 0.45) * 1.5, 0, 1);
+  const lookX = clamp(state.gazeX / GAZE_RANGE, -1, 1);
+  const lookY = clamp(state.gazeY / GAZE_RANGE, -1, 1);
+  const browUp = clamp(state.eyebrowLift, 0, 1);
+  const neutral = Object.fromEntries(ARKIT_BLENDSHAPES.map((name) => [name, 0]));
+  return {
+    ...(neutral as Record<ArkitBlendshape, number>),
+    EyeBlinkLeft: state.blink,
+    EyeBlinkRight: state.blink,
+    // The avatar faces the camera, so looking towards +x is its own left.
+    EyeLookOutLeft: Math.max(lookX, 0),
+    EyeLookInRight: Math.max(lookX, 0),
+    EyeLookInLeft: Math.max(-lookX, 0),
+    EyeLookOutRight: Math.max(-lookX, 0),
+    EyeLookUpLeft: Math.max(lookY, 0),
+    EyeLookUpRight: Math.max(lookY, 0),
+    EyeLookDownLeft: Math.max(-lookY, 0),
+    EyeLookDownRight: Math.max(-lookY, 0),
+    JawOpen: jaw,
+    MouthClose: shape.closure * 0.6,
+    MouthFunnel: shape.round * 0.7,
+    MouthPucker: shape.round * (1 - state.mouthOpen) * 0.8,
+    MouthSmileLeft: smile,
+    MouthSmileRight: smile,
+    MouthStretchLeft: stretch,
+    MouthStretchRight: stretch,
+    MouthRollLower: state.visemes.FF * 0.6,
+    MouthPressLeft: shape.closure * 0.5,
+    MouthPressRight: shape.closure * 0.5,
+    MouthLowerDownLeft: jaw * 0.4,
+    MouthLowerDownRight: jaw * 0.4,
+    MouthUpperUpLeft: jaw * 0.25,
+    MouthUpperUpRight: jaw * 0.25,
+    BrowDownLeft: clamp(-state.eyebrowLift, 0, 1),
+    BrowDownRight: clamp(-state.eyebrowLift, 0, 1),
+    BrowInnerUp: browUp,
+    BrowOuterUpLeft: browUp * 0.7,
+    BrowOuterUpRight: browUp * 0.7,
+    TongueOut: state.visemes.TH * 0.3
+  };
+};
+
+/**
+ * Reads a viseme back out of ARKit weights. Lossy by nature — ARKit has no
+ * notion of phonemes — but close enough to drive the avatars' mouths.
+ */
+const visemeFromArkit = (weights: Partial<Record<ArkitBlendshape, number>>): Viseme => {
+  const jaw = weights.JawOpen ?? 0;
+  const press = ((weights.MouthPressLeft ?? 0) + (weights.MouthPressRight ?? 0)) / 2;
+  const round = Math.max(weights.MouthFunnel ?? 0, weights.MouthPucker ?? 0);
+  const stretch = ((weights.MouthStretchLeft ?? 0) + (weights.MouthStretchRight ?? 0)) / 2;
+  if (Math.max(weights.MouthClose ?? 0, press) > 0.3) return "PP";
+  if ((weights.MouthRollLower ?? 0) > 0.3) return "FF";
+  if ((weights.TongueOut ?? 0) > 0.15) return "TH";
+  if (round > 0.35) return jaw > 0.35 ? "oh" : "ou";
+  if (jaw > 0.4) return "aa";
+  if (stretch > 0.35) return jaw > 0.15 ? "E" : "ih";
+  return jaw > 0.08 ? "DD" : "sil";
+};
+
+const formatTimecode = (time: number, fps: number) => {
+  const totalFrames = Math.round(time * fps);
+  const frames = totalFrames % fps;
+  const seconds = Math.floor(totalFrames / fps);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(
+    seconds % 60
+  )}:${pad(frames)}.000`;
+};
+
+const toJson = (track: AnimationTrack) => {
+  const emotions: Record<string, EmotionPreset> = {};
+  const frames = track.frames.map(({ mood, visemes, arms, ...channels }) => {
+    emotions[mood.id] = mood;
+    return {
+      ...Object.fromEntries(Object.entries(channels).map(([key, value]) => [key, round(value)])),
+      arms: Object.fromEntries(
+        ARM_SIDES.map((side) => [
+          side,
+          Object.fromEntries(ARM_JOINTS.map((joint) => [joint, round(arms[side][joint])]))
+        ])
+      ),
+      visemes: Object.fromEntries(VISEMES.map((viseme) => [viseme, round(visemes[viseme])])),
+      mood: mood.id
+    };
+  });
+  return JSON.stringify({
+    format: JSON_FORMAT,
+    version: JSON_VERSION,
+    fps: track.fps,
+    duration: round(track.duration),
+    emotions,
+    frames
+  });
+};
+
+const toCsv = (track: AnimationTrack) => {
+  const header = [
+    "time",
+    ...LIP_CHANNELS,
+    ...ARM_COLUMNS.map((column) => column.name),
+    ...VISEMES.map((viseme) => `viseme_${viseme}`),
+    "mood"
+  ];
+  const rows = track.frames.map((frame) =>
+    [
+      round(frame.time),
+      ...LIP_CHANNELS.map((channel) => round(frame[channel])),
+      ...ARM_COLUMNS.map(({ side, joint }) => round(frame.arms[side][joint])),
+      ...VISEMES.map((viseme) => round(frame.visemes[viseme])),
+      frame.mood.id
+    ].join(",")
+  );
+  return [header.join(","), ...rows].join("\n");
+};
+
+const toArkitCsv = (track: AnimationTrack) => {
+  const header = ["Timecode", "BlendShapeCount", ...ARKIT_BLENDSHAPES, ...ARKIT_POSE_COLUMNS];
+  const rows = track.frames.map((frame) => {
+    const weights = arkitWeights(frame);
+    const eyeYaw = clamp(frame.gazeX, -GAZE_RANGE, GAZE_RANGE) * EYE_SCALE;
+    const eyePitch = clamp(frame.gazeY, -GAZE_RANGE, GAZE_RANGE) * EYE_SCALE;
+    return [
+      formatTimecode(frame.time, track.fps),
+      ARKIT_BLENDSHAPES.length,
+      ...ARKIT_BLENDSHAPES.map((name) => round(clamp(weights[name], 0, 1))),
+      round(frame.headYaw * HEAD_SCALE),
+      round(frame.headPitch * HEAD_SCALE),
+      round(frame.headRoll * HEAD_SCALE),
+      round(eyeYaw),
+      round(eyePitch),
+      0,
+      round(eyeYaw),
+      round(eyePitch),
+      0
+    ].join(",");
+  });
+  return [header.join(","), ...rows].join("\n");
+};
+
+export const serializeTrack = (track: AnimationTrack, format: TrackFormat) => {
+  const text =
+    format === "json" ? toJson(track) : format === "csv" ? toCsv(track) : toArkitCsv(track);
+  return new Blob([text], { type: trackFormats[format].mimeType });
+};
+
+const readNumber = (value: unknown) => {
+  const number = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(number) ? number : 0;
+};
+
+const resolveMood = (
+  id: unknown,
+  known: Record<string, unknown>,
+  emotions: EmotionPreset[],
+  fallback: EmotionPreset
+) => {
+  const match = emotions.find((preset) => preset.id === id);
+  if (match) return match;
+  if (typeof id === "string" && known[id]) {
+    try {
+      return validateEmotionPreset(known[id]);
+    } catch {
+      return fallback;
+    }
+  }
+  return fallback;
+};
+
+/** Reads arm joints; tracks from before jointed arms get the rest pose for their hands. */
+const readArms = (
+  read: (side: ArmSide, joint: ArmJoint) => unknown,
+  handLeft: number,
+  handRight: number
+): ArmsPose => {
+  const rest = restArms(handLeft, handRight);
+  const arm = (side: ArmSide) =>
+    Object.fromEntries(
+      ARM_JOINTS.map((joint) => {
+        const value = read(side, joint);
+        return [joint, value === undefined || value === "" ? rest[side][joint] : readNumber(value)];
+      })
+    ) as ArmPose;
+  return { left: arm("left"), right: arm("right") };
+};
+
+/** The rate assumed when a track is too short to reveal its own. */
+const FALLBACK_FPS = 30;
+
+const finishTrack = (frames: TrackFrame[], fps?: number): AnimationTrack => {
+  if (!frames.length) {
+    throw new Error("The track has no frames");
+  }
+  frames.sort((a, b) => a.time - b.time);
+  const duration = frames[frames.length - 1].time;
+  const measured = duration > 0 ? Math.round((frames.length - 1) / duration) : 0;
+  return {
+    fps: fps ?? (measured >= 1 ? measured : FALLBACK_FPS),
+    duration,
+    frames
+  };
+};
+
+const parseJsonTrack = (text: string, emotions: EmotionPreset[], fallback: EmotionPreset) => {
+  let data: { format?: unknown; fps?: unknown; emotions?: unknown; frames?: unknown };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The track is not valid JSON");
+  }
+  if (data.format !== JSON_FORMAT || !Array.isArray(data.frames)) {
+    throw new Error("This JSON file is not a LipState track");
+  }
+  const known = (
+    data.emotions && typeof data.emotions === "object" ? data.emotions : {}
+  ) as Record<string, unknown>;
+  const frames = data.frames.map((raw: Record<string, unknown>): TrackFrame => {
+    const visemes = (raw.visemes ?? {}) as Record<string, unknown>;
+    const arms = (raw.arms ?? {}) as Partial<Record<ArmSide, Record<string, unknown>>>;
+    return {
+      time: readNumber(raw.time),
+      ...(Object.fromEntries(
+        LIP_CHANNELS.map((channel) => [channel, readNumber(raw[channel])])
+      ) as Record<LipChannel, number>),
+      arms: readArms(
+        (side, joint) => arms[side]?.[joint],
+        readNumber(raw.handLeft),
+        readNumber(raw.handRight)
+      ),
+      visemes: Object.fromEntries(
+        VISEMES.map((viseme) => [viseme, clamp(readNumber(visemes[viseme]), 0, 1)])
+      ) as LipState["visemes"],
+      mood: resolveMood(raw.mood, known, emotions, fallback)
+    };
+  });
+  return finishTrack(frames, readNumber(data.fps) || undefined);
+};
+
+const parseTimecode = (timecode: string, fps: number) => {
+  const [hours, minutes, seconds, frames] = timecode.split(":").map(Number);
+  return hours * 3600 + minutes * 60 + seconds + (frames || 0) / fps;
+};
+
+const commonFrameRates = [24, 25, 30, 48, 50, 60];
+
+const parseArkitRows = (rows: Record<string, string>[], mood: EmotionPreset) => {
+  // Live Link timecodes count frames, and the recording rate isn't stored;
+  // the highest frame number seen gives it away.
+  const highestFrame = Math.max(
+    ...rows.map((row) => Math.floor(Number((row.Timecode ?? "").split(":")[3]) || 0))
+  );
+  const fps =
+    commonFrameRates.find((rate) => rate > highestFrame) ??
+    Math.max(highestFrame + 1, commonFrameRates[commonFrameRates.length - 1]);
+  const start = parseTimecode(rows[0].Timecode ?? "0:0:0:0", fps);
+  let visemes = createVisemeWeights();
+  const frames = rows.map((row): TrackFrame => {
+    const weights = Object.fromEntries(
+      ARKIT_BLENDSHAPES.map((name) => [name, readNumber(row[name])])
+    ) as Record<ArkitBlendshape, number>;
+    const viseme = visemeFromArkit(weights);
+    visemes = mixVisemeWeights(
+      visemes,
+      createVisemeWeights(viseme, viseme === "sil" ? 1 : clamp(weights.JawOpen * 1.5 + 0.3, 0, 1)),
+      0.55
+    );
+    const stretch = (weights.MouthStretchLeft + weights.MouthStretchRight) / 2;
+    const lookX =
+      (weights.EyeLookOutLeft + weights.EyeLookInRight) / 2 -
+      (weights.EyeLookInLeft + weights.EyeLookOutRight) / 2;
+    const lookY =
+      (weights.EyeLookUpLeft + weights.EyeLookUpRight) / 2 -
+      (weights.EyeLookDownLeft + weights.EyeLookDownRight) / 2;
+    return {
+      time: parseTimecode(row.Timecode ?? "0:0:0:0", fps) - start,
+      mouthOpen: weights.JawOpen,
+      mouthWidth: clamp(0.3 + stretch / 1.2, 0.05, 0.9),
+      blink: (weights.EyeBlinkLeft + weights.EyeBlinkRight) / 2,
+      eyebrowLift: weights.BrowInnerUp - (weights.BrowDownLeft + weights.BrowDownRight) / 2,
+      headYaw: readNumber(row.HeadYaw) / HEAD_SCALE,
+      headPitch: readNumber(row.HeadPitch) / HEAD_SCALE,
+      headRoll: readNumber(row.HeadRoll) / HEAD_SCALE,
+      gazeX: lookX * GAZE_RANGE,
+      gazeY: lookY * GAZE_RANGE,
+      handLeft: 0,
+      handRight: 0,
+      bodySway: 0,
+      arms: restArms(0, 0),
+      visemes,
+      mood
+    };
+  });
+  return finishTrack(frames, fps);
+};
+
+const parseCsvTrack = (text: string, emotions: EmotionPreset[], fallback: EmotionPreset) => {
+  const [headerLine, ...lines] = text.trim().split(/\r?\n/);
+  const header = (headerLine ?? "").split(",").map((cell) => cell.trim());
+  const rows = lines
+    .filter((line) => line.trim())
+    .map((line) => {
+      const cells = line.split(",");
+      return Object.fromEntries(header.map((name, index) => [name, cells[index]?.trim() ?? ""]));
+    });
+  if (!rows.length) {
+    throw new Error("The track has no frames");
+  }
+
+  if (header.includes("JawOpen")) {
+    return parseArkitRows(rows, fallback);
+  }
+  if (!header.includes("time") || !header.includes("mouthOpen")) {
+    throw new Error("This CSV is neither a LipState nor an ARKit track");
+  }
+  const frames = rows.map(
+    (row): TrackFrame => ({
+      time: readNumber(row.time),
+      ...(Object.fromEntries(
+        LIP_CHANNELS.map((channel) => [channel, readNumber(row[channel])])
+      ) as Record<LipChannel, number>),
+      arms: readArms(
+        (side, joint) => row[`${side}Arm_${joint}`],
+        readNumber(row.handLeft),
+        readNumber(row.handRight)
+      ),
+      visemes: Object.fromEntries(
+        VISEMES.map((viseme) => [viseme, clamp(readNumber(row[`viseme_${viseme}`]), 0, 1)])
+      ) as LipState["visemes"],
+      mood: resolveMood(row.mood, {}, emotions, fallback)
+    })
+  );
+  return finishTrack(frames);
+};
+
+/**
+ * Reads a track exported by the studio (JSON or CSV) or an ARKit blendshape
+ * CSV such as a Live Link Face recording. Moods are matched to `emotions` by
+ * id; ARKit recordings carry none and use `fallback` throughout.
+ */
+export const parseTrackFile = async (
+  file: Blob,
+  emotions: EmotionPreset[],
+  fallback: EmotionPreset
+) => {
+  const text = await file.text();
+  return text.trimStart().startsWith("{")
+    ? parseJsonTrack(text, emotions, fallback)
+    : parseCsvTrack(text, emotions, fallback);
+};
+
+/** Mixes every channel of two lip states; `amount` 0 is `from`, 1 is `to`. */
+export const blendLipStates = (from: LipState, to: LipState, amount: number): LipState => ({
+  ...(Object.fromEntries(
+    LIP_CHANNELS.map((channel) => [channel, from[channel] + (to[channel] - from[channel]) * amount])
+  ) as Record<LipChannel, number>),
+  arms: mixArms(from.arms, to.arms, amount),
+  visemes: mixVisemeWeights(from.visemes, to.visemes, amount),
+  mood: blendEmotions(from.mood, to.mood, amount)
+});
+
+/** Interpolates the track at `time`, holding the first and last frames outside it. */
+export const sampleAnimationTrack = (track: AnimationTrack, time: number): LipState => {
+  const { frames } = track;
+  let index = frames.findIndex((frame) => frame.time > time);
+  if (index < 0) index = frames.length;
+  const next = frames[Math.min(index, frames.length - 1)];
+  const prev = frames[Math.max(index - 1, 0)];
+  const span = next.time - prev.time;
+  return blendLipStates(prev, next, span > 0 ? clamp((time - prev.time) / span, 0, 1) : 0);
+};
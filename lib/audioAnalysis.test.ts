@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { EmotionPreset } from "@/lib/emotions";
+import {
+  ANALYSIS_FRAME_RATE,
+  ANALYSIS_SAMPLE_RATE,
+  analyzeAudioBuffer,
+  buildAudioVisemeTrack,
+  classifySpectrum,
+  decibelBytesToPower,
+  measureBands,
+  type SpectralBands
+} from "@/lib/audioAnalysis";
+
+const calm: EmotionPreset = {
+  id: "calm",
+  label: "Calm",
+  description: "",
+  color: "#66ccaa",
+  mouthEnergy: 0.25,
+  handAmplitude: 0.3,
+  gazeIntensity: 0.2,
+  browLift: 0
+};
+
+/** `seconds` of a vowel-like tone at `hz` plus its first two harmonics, or of silence. */
+const tone = (seconds: number, hz = 0) =>
+  Float32Array.from({ length: Math.round(seconds * ANALYSIS_SAMPLE_RATE) }, (_, index) => {
+    const phase = (2 * Math.PI * hz * index) / ANALYSIS_SAMPLE_RATE;
+    return 0.5 * Math.sin(phase) + 0.3 * Math.sin(2 * phase) + 0.2 * Math.sin(3 * phase);
+  });
+
+/** Just enough of an `AudioBuffer` for the analysis, which only reads channel 0. */
+const buffer = (...parts: Float32Array[]) => {
+  const samples = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => {
+    samples.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return {
+    sampleRate: ANALYSIS_SAMPLE_RATE,
+    duration: samples.length / ANALYSIS_SAMPLE_RATE,
+    getChannelData: () => samples
+  } as unknown as AudioBuffer;
+};
+
+describe("analyzeAudioBuffer", () => {
+  const features = analyzeAudioBuffer(buffer(tone(0.5), tone(0.5, 500)));
+
+  it("reads one frame per tick of the analysis frame rate", () => {
+    assert.equal(features.length, ANALYSIS_FRAME_RATE);
+    features.forEach((feature, frame) => assert.equal(feature.time, frame / ANALYSIS_FRAME_RATE));
+  });
+
+  it("keeps silence shut and marks speech with energy", () => {
+    const silent = features.slice(0, 25);
+    assert.ok(silent.every((feature) => feature.silence && feature.viseme === "sil"));
+    const spoken = features.slice(35);
+    assert.ok(spoken.every((feature) => !feature.silence && feature.viseme !== "sil"));
+    assert.ok(features.every((feature) => feature.energy >= 0 && feature.energy <= 1));
+  });
+});
+
+describe("closures", () => {
+  const visemes = (gap: number) =>
+    analyzeAudioBuffer(buffer(tone(0.3, 500), tone(gap), tone(0.3, 500))).map(
+      (feature) => feature.viseme
+    );
+
+  it("seals the lips across a short gap between voiced sounds", () => {
+    const stop = visemes(0.2);
+    assert.ok(stop.includes("PP"));
+    assert.ok(!stop.includes("sil"));
+  });
+
+  it("leaves a real pause silent", () => {
+    const pause = visemes(0.5);
+    assert.ok(pause.includes("sil"));
+    assert.ok(!pause.includes("PP"));
+  });
+});
+
+describe("buildAudioVisemeTrack", () => {
+  const features = analyzeAudioBuffer(buffer(tone(0.5), tone(0.5, 500)));
+
+  it("opens the mouth where there is speech, on the same frames", () => {
+    const track = buildAudioVisemeTrack(features, calm);
+    assert.deepEqual(
+      track.map((frame) => frame.time),
+      features.map((feature) => feature.time)
+    );
+    assert.ok(track[10].mouth < 0.05);
+    assert.ok(track[50].mouth > track[10].mouth * 4);
+  });
+
+  it("opens wider for more energetic moods", () => {
+    const quiet = buildAudioVisemeTrack(features, calm)[50];
+    const loud = buildAudioVisemeTrack(features, { ...calm, mouthEnergy: 1 })[50];
+    assert.ok(loud.mouth > quiet.mouth);
+  });
+});
+
+describe("decibelBytesToPower", () => {
+  it("maps analyser bytes across the decibel range back to linear power", () => {
+    const power = decibelBytesToPower(new Uint8Array([0, 255, 51]), -100, -30);
+    assert.equal(power[0], 0);
+    assert.ok(Math.abs(power[1] - 1e-3) < 1e-9);
+    assert.ok(Math.abs(power[2] / 10 ** -8.6 - 1) < 1e-6);
+  });
+});
+
+describe("measureBands", () => {
+  const binHz = ANALYSIS_SAMPLE_RATE / 512;
+  const peakAt = (hz: number) => {
+    const power = new Float32Array(256);
+    power[Math.round(hz / binHz)] = 4;
+    return power;
+  };
+
+  it("splits power into bands that add up to one", () => {
+    const bands = measureBands(peakAt(2400), binHz);
+    assert.deepEqual(bands, { voicing: 0, first: 0, secondLow: 0, secondHigh: 1, fricative: 0 });
+    const spread = measureBands(new Float32Array(256).fill(1), binHz);
+    const total = Object.values(spread).reduce((sum, value) => sum + value, 0);
+    assert.ok(Math.abs(total - 1) < 1e-9);
+    assert.ok(spread.fricative > spread.voicing);
+  });
+
+  it("reads an empty spectrum as no energy anywhere", () => {
+    assert.deepEqual(measureBands(new Float32Array(256), binHz), {
+      voicing: 0,
+      first: 0,
+      secondLow: 0,
+      secondHigh: 0,
+      fricative: 0
+    });
+  });
+});
+
+describe("classifySpectrum", () => {
+  const bands = (shares: Partial<SpectralBands>): SpectralBands => ({
+    voicing: 0,
+    first: 0,
+    secondLow: 0,
+    secondHigh: 0,
+    fricative: 0,
+    ...shares
+  });
+
+  it("reads hiss as a sibilant and low murmur as closed lips", () => {
+    assert.equal(classifySpectrum(bands({ fricative: 0.5, first: 0.5 })), "SS");
+    assert.equal(classifySpectrum(bands({ fricative: 0.3, secondHigh: 0.3, first: 0.1 })), "CH");
+    assert.equal(classifySpectrum(bands({ voicing: 0.8, first: 0.2 })), "PP");
+  });
+
+  it("places vowels by jaw opening and tongue position", () => {
+    const vowels: [Partial<SpectralBands>, string][] = [
+      [{ voicing: 0.1, first: 0.5, secondLow: 0.2, secondHigh: 0.2 }, "aa"],
+      [{ voicing: 0.3, first: 0.1, secondLow: 0.1, secondHigh: 0.5 }, "ih"],
+      [{ voicing: 0.1, first: 0.6, secondLow: 0.25, secondHigh: 0.05 }, "oh"],
+      [{ voicing: 0.5, first: 0.1, secondLow: 0.4 }, "ou"]
+    ];
+    for (const [shares, viseme] of vowels) {
+      assert.equal(classifySpectrum(bands(shares)), viseme);
+    }
+  });
+});
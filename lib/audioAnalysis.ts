@@ -0,0 +1,248 @@
+import type { EmotionPreset } from "@/lib/emotions";
+import { clamp } from "@/lib/math";
+import {
+  createVisemeWeights,
+  getMouthShape,
+  mixVisemeWeights,
+  type Viseme,
+  type VisemeFrame,
+  type VisemeWeights
+} from "@/lib/visemes";
+
+export const ANALYSIS_SAMPLE_RATE = 16_000;
+export const ANALYSIS_FRAME_RATE = 60;
+
+export type AudioFeatureFrame = {
+  time: number;
+  energy: number;
+  silence: boolean;
+  viseme: Viseme;
+};
+
+export type SpectralBands = {
+  voicing: number;
+  first: number;
+  secondLow: number;
+  secondHigh: number;
+  fricative: number;
+};
+
+const SILENCE_THRESHOLD = 0.08;
+const FFT_SIZE = 512;
+const MAX_CLOSURE_FRAMES = 7;
+
+const bandRanges: [keyof SpectralBands, number, number][] = [
+  ["voicing", 80, 300],
+  ["first", 300, 900],
+  ["secondLow", 900, 1600],
+  ["secondHigh", 1600, 3200],
+  ["fricative", 3500, 8000]
+];
+
+const percentile = (values: number[], ratio: number) => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * ratio))];
+};
+
+/**
+ * Decodes an uploaded or synthesized file and renders it down to a mono
+ * buffer at the analysis rate, so every source is analysed on the same grid.
+ */
+export const decodeAudioFile = async (file: Blob) => {
+  const data = await file.arrayBuffer();
+  const probe = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const decoded = await probe.decodeAudioData(data);
+  const length = Math.max(1, Math.ceil(decoded.duration * ANALYSIS_SAMPLE_RATE));
+  const offline = new OfflineAudioContext(1, length, ANALYSIS_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  return offline.startRendering();
+};
+
+const hannWindow = Float32Array.from(
+  { length: FFT_SIZE },
+  (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1))
+);
+
+/**
+ * Hann-windowed radix-2 FFT over `FFT_SIZE` samples starting at `start`.
+ * Returns the power of each bin up to Nyquist.
+ */
+const powerSpectrum = (samples: Float32Array, start: number) => {
+  const real = new Float32Array(FFT_SIZE);
+  const imag = new Float32Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i += 1) {
+    real[i] = (samples[start + i] ?? 0) * hannWindow[i];
+  }
+
+  for (let i = 1, j = 0; i < FFT_SIZE; i += 1) {
+    let bit = FFT_SIZE >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+    }
+  }
+
+  for (let size = 2; size <= FFT_SIZE; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let offset = 0; offset < FFT_SIZE; offset += size) {
+      for (let k = 0; k < size / 2; k += 1) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = offset + k;
+        const b = a + size / 2;
+        const tr = real[b] * cos - imag[b] * sin;
+        const ti = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+
+  const power = new Float32Array(FFT_SIZE / 2);
+  for (let i = 0; i < power.length; i += 1) {
+    power[i] = real[i] * real[i] + imag[i] * imag[i];
+  }
+  return power;
+};
+
+/**
+ * Converts `AnalyserNode.getByteFrequencyData` output back to linear power so
+ * live and offline spectra can share `measureBands`.
+ */
+export const decibelBytesToPower = (
+  bytes: Uint8Array,
+  minDecibels: number,
+  maxDecibels: number
+) => {
+  const power = new Float32Array(bytes.length);
+  for (let i = 0; i < bytes.length; i += 1) {
+    if (bytes[i] === 0) continue;
+    const decibels = minDecibels + (bytes[i] / 255) * (maxDecibels - minDecibels);
+    power[i] = 10 ** (decibels / 10);
+  }
+  return power;
+};
+
+export const measureBands = (power: ArrayLike<number>, binHz: number): SpectralBands => {
+  const bands: SpectralBands = { voicing: 0, first: 0, secondLow: 0, secondHigh: 0, fricative: 0 };
+  let total = 0;
+  for (const [band, low, high] of bandRanges) {
+    const from = Math.max(0, Math.floor(low / binHz));
+    const to = Math.min(power.length - 1, Math.ceil(high / binHz));
+    for (let bin = from; bin <= to; bin += 1) {
+      bands[band] += power[bin];
+    }
+    total += bands[band];
+  }
+  if (total <= 0) return bands;
+  for (const [band] of bandRanges) {
+    bands[band] /= total;
+  }
+  return bands;
+};
+
+/**
+ * Rough formant reading: the F1 band tracks jaw opening, the split between the
+ * low and high F2 bands tracks front (EE) versus back/rounded (OO) vowels, and
+ * energy above 3.5 kHz marks sibilants. Voiced energy trapped below 300 Hz is
+ * a nasal or bilabial murmur, which is made with closed lips.
+ */
+export const classifySpectrum = (bands: SpectralBands): Viseme => {
+  if (bands.fricative > 0.4) return "SS";
+  if (bands.fricative + bands.secondHigh > 0.55 && bands.first < 0.15) return "CH";
+  if (bands.voicing > 0.7) return "PP";
+  const openness = bands.first / (bands.voicing + bands.first + 1e-6);
+  const front = bands.secondHigh / (bands.secondLow + bands.secondHigh + 1e-6);
+  if (front > 0.6) return openness > 0.4 ? "E" : "ih";
+  if (front < 0.3) return openness > 0.45 ? "oh" : "ou";
+  return openness > 0.35 ? "aa" : "E";
+};
+
+/**
+ * Short silent gaps between voiced frames are stop closures (p/b/t/k) rather
+ * than pauses; sealing the lips there reads as a plosive instead of a hold.
+ */
+const markClosures = (features: AudioFeatureFrame[]) => {
+  let gapStart = -1;
+  features.forEach((feature, frame) => {
+    if (feature.silence) {
+      if (gapStart < 0) gapStart = frame;
+      return;
+    }
+    if (gapStart > 0 && frame - gapStart <= MAX_CLOSURE_FRAMES) {
+      for (let i = gapStart; i < frame; i += 1) {
+        features[i].viseme = "PP";
+      }
+    }
+    gapStart = -1;
+  });
+  return features;
+};
+
+export const analyzeAudioBuffer = (buffer: AudioBuffer): AudioFeatureFrame[] => {
+  const samples = buffer.getChannelData(0);
+  const hop = buffer.sampleRate / ANALYSIS_FRAME_RATE;
+  const windowSize = Math.round(hop * 2);
+  const frameCount = Math.ceil(buffer.duration * ANALYSIS_FRAME_RATE);
+  const binHz = buffer.sampleRate / FFT_SIZE;
+  const levels: number[] = [];
+  const spectra: SpectralBands[] = [];
+
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    const start = Math.max(0, Math.round(frame * hop - windowSize / 2));
+    const end = Math.min(samples.length, start + windowSize);
+    let sum = 0;
+    for (let i = start; i < end; i += 1) {
+      sum += samples[i] * samples[i];
+    }
+    levels.push(Math.sqrt(sum / Math.max(1, end - start)));
+    const fftStart = Math.max(0, Math.round(frame * hop - FFT_SIZE / 2));
+    spectra.push(measureBands(powerSpectrum(samples, fftStart), binHz));
+  }
+
+  const floor = percentile(levels, 0.1);
+  const peak = Math.max(percentile(levels, 0.95), floor + 1e-4);
+  let smoothed = 0;
+
+  const features = levels.map((level, frame): AudioFeatureFrame => {
+    const energy = clamp((level - floor) / (peak - floor), 0, 1);
+    smoothed += (energy - smoothed) * (energy > smoothed ? 0.6 : 0.3);
+    const silence = smoothed < SILENCE_THRESHOLD;
+    return {
+      time: frame / ANALYSIS_FRAME_RATE,
+      energy: smoothed,
+      silence,
+      viseme: silence ? "sil" : classifySpectrum(spectra[frame])
+    };
+  });
+  return markClosures(features);
+};
+
+export const buildAudioVisemeTrack = (
+  features: AudioFeatureFrame[],
+  emotion: EmotionPreset
+): VisemeFrame[] => {
+  const energyScale = 0.6 + emotion.mouthEnergy * 0.6;
+  let previous: VisemeWeights = createVisemeWeights();
+  return features.map((feature) => {
+    const target = feature.silence
+      ? createVisemeWeights(feature.viseme)
+      : createVisemeWeights(feature.viseme, clamp(feature.energy * 1.4, 0, 1));
+    const visemes = mixVisemeWeights(previous, target, 0.55);
+    previous = visemes;
+    const shape = getMouthShape(visemes);
+    return {
+      time: feature.time,
+      mouth: clamp(shape.open * energyScale + feature.energy * 0.15, 0.02, 1),
+      width: clamp(shape.width * (0.9 + emotion.mouthEnergy * 0.2), 0.05, 0.9),
+      visemes
+    };
+  });
+};
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { backdropKind, coverFit, defaultBackground, isStageBackground } from "@/lib/background";
+
+describe("backdropKind", () => {
+  it("tells images from videos by MIME type", () => {
+    assert.equal(backdropKind(new Blob([], { type: "image/png" })), "image");
+    assert.equal(backdropKind(new Blob([], { type: "video/webm" })), "video");
+    assert.equal(backdropKind(new Blob([], { type: "audio/wav" })), null);
+    assert.equal(backdropKind(new Blob([])), null);
+  });
+});
+
+describe("coverFit", () => {
+  it("crops the top and bottom of media taller than the view", () => {
+    assert.deepEqual(coverFit(1, 2), { repeat: [1, 0.5], offset: [0, 0.25] });
+  });
+
+  it("crops the sides of media wider than the view", () => {
+    assert.deepEqual(coverFit(2, 1), { repeat: [0.5, 1], offset: [0.25, 0] });
+  });
+
+  it("shows everything while either size is unknown", () => {
+    assert.deepEqual(coverFit(0, 16 / 9), { repeat: [1, 1], offset: [0, 0] });
+    assert.deepEqual(coverFit(16 / 9, 0), { repeat: [1, 1], offset: [0, 0] });
+  });
+});
+
+describe("isStageBackground", () => {
+  it("accepts every background kind", () => {
+    assert.ok(isStageBackground(defaultBackground));
+    for (const kind of ["image", "video", "chroma"]) {
+      assert.ok(isStageBackground({ ...defaultBackground, kind }));
+    }
+  });
+
+  it("rejects unknown or inherited kinds and missing fields", () => {
+    assert.ok(!isStageBackground({ ...defaultBackground, kind: "gradient" }));
+    assert.ok(!isStageBackground({ ...defaultBackground, kind: "constructor" }));
+    assert.ok(!isStageBackground({ ...defaultBackground, showHud: undefined }));
+    assert.ok(!isStageBackground(null));
+  });
+});
@@ -0,0 +1,58 @@
+export type BackgroundKind = "solid" | "image" | "video" | "chroma";
+
+/**
+ * What the stage shows behind the avatar. Image and video backgrounds use
+ * the project's backdrop file and fall back to `color` until it loads.
+ */
+export type StageBackground = {
+  kind: BackgroundKind;
+  color: string;
+  showRibbon: boolean;
+  showHud: boolean;
+};
+
+/** The broadcast chroma-key green most keyers default to. */
+export const CHROMA_GREEN = "#00b140";
+
+export const backgroundKindLabels: Record<BackgroundKind, string> = {
+  solid: "Solid",
+  image: "Image",
+  video: "Video loop",
+  chroma: "Green screen"
+};
+
+export const defaultBackground: StageBackground = {
+  kind: "solid",
+  color: "#04050c",
+  showRibbon: true,
+  showHud: true
+};
+
+export const backdropKind = (file: Blob): "image" | "video" | null => {
+  if (file.type.startsWith("image/")) return "image";
+  if (file.type.startsWith("video/")) return "video";
+  return null;
+};
+
+/**
+ * Texture repeat and offset that fill a `viewAspect` frame with media of
+ * `mediaAspect` without stretching it, cropping whichever sides overflow.
+ */
+export const coverFit = (mediaAspect: number, viewAspect: number) => {
+  if (!mediaAspect || !viewAspect) return { repeat: [1, 1], offset: [0, 0] };
+  const repeat =
+    viewAspect > mediaAspect ? [1, mediaAspect / viewAspect] : [viewAspect / mediaAspect, 1];
+  return { repeat, offset: [(1 - repeat[0]) / 2, (1 - repeat[1]) / 2] };
+};
+
+export const isStageBackground = (value: unknown): value is StageBackground => {
+  if (!value || typeof value !== "object") return false;
+  const background = value as Record<string, unknown>;
+  return (
+    typeof background.kind === "string" &&
+    Object.hasOwn(backgroundKindLabels, background.kind) &&
+    typeof background.color === "string" &&
+    typeof background.showRibbon === "boolean" &&
+    typeof background.showHud === "boolean"
+  );
+};
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  CAMERA_SHOTS,
+  cameraAt,
+  defaultCameraPlan,
+  isCameraPlan,
+  shotFraming,
+  type CameraPlan
+} from "@/lib/camera";
+
+const near = (actual: number[], expected: number[]) =>
+  actual.forEach((value, index) => assert.ok(Math.abs(value - expected[index]) < 1e-9));
+
+const plan: CameraPlan = {
+  ...defaultCameraPlan,
+  cues: [
+    { id: "b", at: 0.75, shot: "closeUp", move: "cut" },
+    { id: "a", at: 0.5, shot: "wide", move: "cut" }
+  ]
+};
+
+describe("shotFraming", () => {
+  it("uses the shot as is for a single avatar", () => {
+    const { label, ...framing } = CAMERA_SHOTS.closeUp;
+    assert.ok(label);
+    assert.deepEqual(shotFraming("closeUp"), framing);
+    assert.deepEqual(shotFraming("closeUp", 1), framing);
+  });
+
+  it("pulls back to keep a whole cast in frame", () => {
+    const framing = shotFraming("medium", 3);
+    near(framing.position, [0, 1.4, 4 + 2 * 2.6 * 0.9]);
+    assert.deepEqual(framing.target, CAMERA_SHOTS.medium.target);
+  });
+});
+
+describe("cameraAt", () => {
+  it("opens on the plan's shot and cuts at each cue in order", () => {
+    assert.deepEqual(cameraAt(plan, 2, 10), shotFraming("medium"));
+    assert.deepEqual(cameraAt(plan, 5, 10), shotFraming("wide"));
+    assert.deepEqual(cameraAt(plan, 9, 10, 2), shotFraming("closeUp", 2));
+  });
+
+  it("pushes in toward the target until the next cue", () => {
+    const push: CameraPlan = { ...plan, move: "push" };
+    assert.deepEqual(cameraAt(push, 0, 10), shotFraming("medium"));
+    near(cameraAt(push, 2.5, 10).position, [0, 1.4 * 0.89, 4 * 0.89]);
+    near(cameraAt(push, 4.999999, 10).position, [0, 1.4 * 0.78, 4 * 0.78]);
+    assert.deepEqual(cameraAt(push, 6, 10), shotFraming("wide"));
+  });
+
+  it("holds the opening shot when the take has no length", () => {
+    assert.deepEqual(cameraAt({ ...plan, move: "push" }, 3, 0), shotFraming("medium"));
+  });
+});
+
+describe("isCameraPlan", () => {
+  it("accepts a plan with cues", () => {
+    assert.ok(isCameraPlan(plan));
+    assert.ok(isCameraPlan(defaultCameraPlan));
+  });
+
+  it("rejects unknown or inherited shots and moves", () => {
+    assert.ok(!isCameraPlan({ ...plan, shot: "toString" }));
+    assert.ok(!isCameraPlan({ ...plan, move: "hasOwnProperty" }));
+    assert.ok(!isCameraPlan({ ...plan, cues: [{ ...plan.cues[0], shot: "dolly" }] }));
+    assert.ok(!isCameraPlan({ ...plan, locked: "yes" }));
+    assert.ok(!isCameraPlan(null));
+  });
+});
@@ -0,0 +1,126 @@
+import { CAST_SPACING } from "@/lib/dialogue";
+import { transitionProgress } from "@/lib/motion";
+
+export type CameraShot = "closeUp" | "medium" | "wide" | "overShoulder";
+
+export type CameraMove = "cut" | "push";
+
+type Vec3 = [number, number, number];
+
+/** Where the camera sits, what it looks at, and its vertical field of view. */
+export type CameraFraming = {
+  position: Vec3;
+  target: Vec3;
+  fov: number;
+};
+
+/** A cut to `shot` at `at` (0–1 through the take); "push" dollies in until the next cue. */
+export type CameraCue = {
+  id: string;
+  at: number;
+  shot: CameraShot;
+  move: CameraMove;
+};
+
+/**
+ * The take opens on `shot` and follows `cues`. While `locked`, the preview
+ * runs the same camera as the export and can't be dragged; unlocked, the
+ * preview orbits freely but exports still use the shots.
+ */
+export type CameraPlan = {
+  shot: CameraShot;
+  move: CameraMove;
+  cues: CameraCue[];
+  locked: boolean;
+};
+
+export const CAMERA_SHOTS: Record<CameraShot, CameraFraming & { label: string }> = {
+  closeUp: { label: "Close-up", position: [0, 0.95, 2.3], target: [0, 0.8, 0], fov: 30 },
+  medium: { label: "Medium", position: [0, 1.4, 4], target: [0, 0, 0], fov: 35 },
+  wide: { label: "Wide", position: [0, 2.1, 7.5], target: [0, 0.1, 0], fov: 40 },
+  overShoulder: {
+    label: "Over the shoulder",
+    position: [1.25, 1.05, 3.1],
+    target: [-0.2, 0.55, 0],
+    fov: 32
+  }
+};
+
+export const cameraMoveLabels: Record<CameraMove, string> = {
+  cut: "Hold",
+  push: "Push in"
+};
+
+export const defaultCameraPlan: CameraPlan = {
+  shot: "medium",
+  move: "cut",
+  cues: [],
+  locked: false
+};
+
+/** How much of the way toward its target a push-in travels by the next cue. */
+const PUSH_IN = 0.22;
+
+/**
+ * A shot as framed for the stage. Dialogue casts stand in a row, so every
+ * shot pulls back far enough to keep the whole cast in frame.
+ */
+export const shotFraming = (shot: CameraShot, castSize = 0): CameraFraming => {
+  const { position, target, fov } = CAMERA_SHOTS[shot];
+  const pullBack = castSize > 1 ? (castSize - 1) * CAST_SPACING * 0.9 : 0;
+  return { position: [position[0], position[1], position[2] + pullBack], target, fov };
+};
+
+/**
+ * The framing at `time` seconds into a take of `duration` seconds. Cuts are
+ * instant; a push-in eases toward the target from its cue until the next one.
+ */
+export const cameraAt = (
+  plan: CameraPlan,
+  time: number,
+  duration: number,
+  castSize = 0
+): CameraFraming => {
+  const cues = [...plan.cues].sort((a, b) => a.at - b.at);
+  const progress = duration > 0 ? time / duration : 0;
+  let current: { at: number; shot: CameraShot; move: CameraMove } = { ...plan, at: 0 };
+  let next = 1;
+  for (const cue of cues) {
+    if (cue.at > progress) {
+      next = cue.at;
+      break;
+    }
+    current = cue;
+  }
+  const framing = shotFraming(current.shot, castSize);
+  if (current.move !== "push" || duration <= 0) return framing;
+
+  const span = (next - current.at) * duration;
+  const amount = transitionProgress(time - current.at * duration, span) * PUSH_IN;
+  const { position, target } = framing;
+  return {
+    ...framing,
+    position: position.map((value, axis) => value + (target[axis] - value) * amount) as Vec3
+  };
+};
+
+export const isCameraPlan = (value: unknown): value is CameraPlan => {
+  if (!value || typeof value !== "object") return false;
+  const plan = value as Record<string, unknown>;
+  const isShot = (shot: unknown) => typeof shot === "string" && Object.hasOwn(CAMERA_SHOTS, shot);
+  const isMove = (move: unknown) =>
+    typeof move === "string" && Object.hasOwn(cameraMoveLabels, move);
+  return (
+    isShot(plan.shot) &&
+    isMove(plan.move) &&
+    typeof plan.locked === "boolean" &&
+    Array.isArray(plan.cues) &&
+    plan.cues.every(
+      (cue: Record<string, unknown>) =>
+        typeof cue?.id === "string" &&
+        typeof cue.at === "number" &&
+        isShot(cue.shot) &&
+        isMove(cue.move)
+    )
+  );
+};
@@ -0,0 +1,158 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildCaptionCues,
+  cueLines,
+  retimeWords,
+  serializeCaptions,
+  speechTimeWarp,
+  type CaptionWord
+} from "@/lib/captions";
+
+/** Words spoken back to back, `step` seconds each, starting at `start`. */
+const spoken = (text: string, start = 0, step = 0.3, speaker?: string): CaptionWord[] =>
+  text.split(" ").map((word, index) => ({
+    text: word,
+    start: start + index * step,
+    end: start + (index + 1) * step,
+    speaker
+  }));
+
+const cueTexts = (words: CaptionWord[]) =>
+  buildCaptionCues(words).map((cue) => cue.words.map((word) => word.text).join(" "));
+
+describe("buildCaptionCues", () => {
+  it("closes a cue at the end of a sentence", () => {
+    assert.deepEqual(cueTexts(spoken("Hello there. How are you?")), [
+      "Hello there.",
+      "How are you?"
+    ]);
+  });
+
+  it("closes a cue at a pause", () => {
+    const words = [...spoken("Wait for", 0), ...spoken("it now", 1.5)];
+    assert.deepEqual(cueTexts(words), ["Wait for", "it now"]);
+  });
+
+  it("closes a cue when the speaker changes and names each new voice once", () => {
+    const words = [
+      ...spoken("Morning all", 0, 0.3, "Ana"),
+      ...spoken("Hi Ana.", 0.6, 0.3, "Ben"),
+      ...spoken("Coffee first.", 1.2, 0.3, "Ben")
+    ];
+    assert.deepEqual(
+      buildCaptionCues(words).map((cue) => cue.speaker),
+      ["Ana", "Ben", undefined]
+    );
+  });
+
+  it("keeps cues within two lines of 42 characters", () => {
+    const words = spoken(
+      "this sentence keeps going on and on without any punctuation at all so the " +
+        "captions have to find somewhere sensible to break it up",
+      0,
+      0.1
+    );
+    const cues = buildCaptionCues(words);
+    assert.ok(cues.length > 1);
+    for (const cue of cues) {
+      const lines = cueLines(cue);
+      assert.ok(lines.length <= 2);
+      for (const line of lines) {
+        assert.ok(line.map((word) => word.text).join(" ").length <= 42);
+      }
+    }
+    assert.deepEqual(cues.flatMap((cue) => cue.words), words);
+  });
+
+  it("keeps cues under six seconds", () => {
+    const cues = buildCaptionCues(spoken("so very very slowly spoken words here", 0, 1.5));
+    assert.ok(cues.length > 1);
+    for (const cue of cues) {
+      assert.ok(cue.end - cue.start <= 6);
+    }
+  });
+
+  it("holds short cues for a second unless the next one needs the screen", () => {
+    const [first, second] = buildCaptionCues([
+      ...spoken("Yes.", 0, 0.2),
+      ...spoken("No.", 0.5, 0.2)
+    ]);
+    assert.equal(first.end, 0.5);
+    assert.equal(second.end, 1.5);
+  });
+});
+
+describe("serializeCaptions", () => {
+  const cues = buildCaptionCues([
+    ...spoken("Hello there.", 0, 0.5, "Ana"),
+    ...spoken("Good evening.", 3661.25, 0.5, "Ben")
+  ]);
+
+  it("writes numbered SRT blocks with comma milliseconds", async () => {
+    assert.equal(
+      await serializeCaptions(cues, "srt").text(),
+      "1\n00:00:00,000 --> 00:00:01,000\nAna: Hello there.\n\n" +
+        "2\n01:01:01,250 --> 01:01:02,250\nBen: Good evening.\n"
+    );
+  });
+
+  it("writes a WebVTT header and dotted milliseconds", async () => {
+    const blob = serializeCaptions(cues, "vtt");
+    assert.equal(blob.type, "text/vtt");
+    assert.equal(
+      await blob.text(),
+      "WEBVTT\n\n00:00:00.000 --> 00:00:01.000\nAna: Hello there.\n\n" +
+        "01:01:01.250 --> 01:01:02.250\nBen: Good evening.\n"
+    );
+  });
+});
+
+describe("retimeWords", () => {
+  const words = [
+    { text: "One", charIndex: 0, start: 0, end: 0.5 },
+    { text: "two.", charIndex: 4, start: 0.5, end: 1 },
+    { text: "Three.", charIndex: 9, start: 2, end: 2.5 }
+  ];
+
+  it("stretches each clip's words over where that clip sits in the audio", () => {
+    const retimed = retimeWords(words, [
+      { charStart: 0, charEnd: 8, start: 0.25, end: 1.25 },
+      { charStart: 8, charEnd: 15, start: 2, end: 3 }
+    ]);
+    assert.deepEqual(
+      retimed.map(({ start, end }) => [start, end]),
+      [
+        [0.25, 0.75],
+        [0.75, 1.25],
+        [2, 3]
+      ]
+    );
+  });
+
+  it("leaves words outside every clip alone", () => {
+    assert.deepEqual(retimeWords(words, []), words);
+  });
+});
+
+describe("speechTimeWarp", () => {
+  const words = [
+    { charIndex: 0, start: 0.5, end: 1.5 },
+    { charIndex: 10, start: 2.5, end: 3 }
+  ];
+  const warp = speechTimeWarp(words, [
+    { charStart: 0, charEnd: 10, start: 1, end: 2 },
+    { charStart: 10, charEnd: 20, start: 4, end: 6 }
+  ]);
+
+  it("stretches times inside a clip over its span", () => {
+    assert.equal(warp(1), 1.5);
+    assert.equal(warp(2.75), 5);
+  });
+
+  it("moves times between clips across the pause", () => {
+    assert.equal(warp(0.25), 0.5);
+    assert.equal(warp(2), 3);
+    assert.equal(warp(4), 7);
+  });
+});
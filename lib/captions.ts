@@ -0,0 +1,264 @@
+/** A spoken word on the take's timeline; `speaker` names who says it in a dialogue. */
+export type CaptionWord = {
+  text: string;
+  start: number;
+  end: number;
+  speaker?: string;
+};
+
+export type CaptionCue = {
+  start: number;
+  end: number;
+  speaker?: string;
+  words: CaptionWord[];
+};
+
+export type CaptionFormat = "srt" | "vtt";
+
+type CaptionFormatInfo = {
+  label: string;
+  extension: string;
+  mimeType: string;
+};
+
+export const captionFormats: Record<CaptionFormat, CaptionFormatInfo> = {
+  srt: { label: "SubRip (SRT)", extension: "srt", mimeType: "application/x-subrip" },
+  vtt: { label: "WebVTT", extension: "vtt", mimeType: "text/vtt" }
+};
+
+/** Common subtitle guidelines: two lines of at most 42 characters, on screen 1–6 seconds. */
+const MAX_LINE_CHARS = 42;
+const MAX_CUE_LINES = 2;
+const MIN_CUE_DURATION = 1;
+const MAX_CUE_DURATION = 6;
+/** A silence this long starts a new cue even mid-sentence. */
+const CUE_GAP = 0.6;
+
+/** Where the audio voicing the script's `[charStart, charEnd)` range starts and ends. */
+export type CaptionSpan = {
+  charStart: number;
+  charEnd: number;
+  start: number;
+  end: number;
+};
+
+type TimedWord = {
+  charIndex: number;
+  start: number;
+  end: number;
+};
+
+/**
+ * Maps times on the estimated timeline onto the synthesized audio. Each clip's
+ * words stretch over that clip's span, and anything between clips moves
+ * linearly across the pause. Every clip is paced by the voice on its own, so
+ * one scale across the whole take would drift.
+ */
+export const speechTimeWarp = (words: TimedWord[], spans: CaptionSpan[]) => {
+  // Pairs of [estimated, actual] times, in order.
+  const anchors: [number, number][] = [];
+  for (const span of spans) {
+    const inside = words.filter(
+      (word) => word.charIndex >= span.charStart && word.charIndex < span.charEnd
+    );
+    if (!inside.length) continue;
+    anchors.push([inside[0].start, span.start], [inside[inside.length - 1].end, span.end]);
+  }
+  return (time: number) => {
+    if (!anchors.length) return time;
+    const next = anchors.findIndex(([estimated]) => estimated >= time);
+    if (next < 0) {
+      const [estimated, actual] = anchors[anchors.length - 1];
+      return actual + time - estimated;
+    }
+    const [toEstimated, toActual] = anchors[next];
+    const [fromEstimated, fromActual] = next > 0 ? anchors[next - 1] : [0, 0];
+    if (toEstimated <= fromEstimated) return toActual;
+    const progress = (time - fromEstimated) / (toEstimated - fromEstimated);
+    return fromActual + progress * (toActual - fromActual);
+  };
+};
+
+/** Moves estimated word timings onto the clip of audio that voices them; see `speechTimeWarp`. */
+export const retimeWords = <T extends TimedWord>(words: T[], spans: CaptionSpan[]): T[] => {
+  const warp = speechTimeWarp(words, spans);
+  return words.map((word) => ({ ...word, start: warp(word.start), end: warp(word.end) }));
+};
+
+const cueText = (words: CaptionWord[]) => words.map((word) => word.text).join(" ");
+
+/** Breaks a cue's words into lines no wider than `MAX_LINE_CHARS` where possible. */
+export const cueLines = (cue: CaptionCue) => {
+  const lines: CaptionWord[][] = [[]];
+  let length = cue.speaker ? cue.speaker.length + 2 : 0;
+  for (const word of cue.words) {
+    const line = lines[lines.length - 1];
+    if (line.length && length + 1 + word.text.length > MAX_LINE_CHARS) {
+      lines.push([word]);
+      length = word.text.length;
+    } else {
+      line.push(word);
+      length += (line.length > 1 ? 1 : 0) + word.text.length;
+    }
+  }
+  return lines;
+};
+
+/**
+ * Groups word timings into caption cues. A cue closes at the end of a
+ * sentence, at a pause, when the speaker changes, or when it would run past
+ * two lines or six seconds. Short cues stay up for at least a second unless
+ * the next one needs the screen.
+ */
+export const buildCaptionCues = (words: CaptionWord[]): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+  let current: CaptionWord[] = [];
+
+  const close = () => {
+    if (!current.length) return;
+    cues.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      speaker: current[0].speaker,
+      words: current
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    if (previous) {
+      const lines = cueLines({
+        start: current[0].start,
+        end: word.end,
+        speaker: current[0].speaker,
+        words: [...current, word]
+      });
+      const tooLong =
+        lines.length > MAX_CUE_LINES || word.end - current[0].start > MAX_CUE_DURATION;
+      if (
+        tooLong ||
+        word.speaker !== previous.speaker ||
+        word.start - previous.end > CUE_GAP ||
+        /[.!?]["')\]]*$/.test(previous.text)
+      ) {
+        close();
+      }
+    }
+    current.push(word);
+  }
+  close();
+
+  return cues.map((cue, index) => {
+    const next = cues[index + 1];
+    const end = Math.max(cue.end, cue.start + MIN_CUE_DURATION);
+    // Only name the speaker when the voice changes, not on every cue they speak.
+    const speaker = cue.speaker !== cues[index - 1]?.speaker ? cue.speaker : undefined;
+    return { ...cue, speaker, end: next ? Math.min(end, next.start) : end };
+  });
+};
+
+const timestamp = (seconds: number, separator: "," | ".") => {
+  const total = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, size = 2) => String(value).padStart(size, "0");
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor(total / 60_000) % 60;
+  const secs = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(total % 1000, 3)}`;
+};
+
+const cueBody = (cue: CaptionCue) => {
+  const lines = cueLines(cue).map(cueText);
+  if (cue.speaker) lines[0] = `${cue.speaker}: ${lines[0]}`;
+  return lines.join("\n");
+};
+
+export const serializeCaptions = (cues: CaptionCue[], format: CaptionFormat) => {
+  const separator = format === "srt" ? "," : ".";
+  const blocks = cues.map((cue, index) => {
+    const timing = `${timestamp(cue.start, separator)} --> ${timestamp(cue.end, separator)}`;
+    const body = cueBody(cue);
+    return format === "srt" ? `${index + 1}\n${timing}\n${body}` : `${timing}\n${body}`;
+  });
+  const text = format === "vtt" ? ["WEBVTT", ...blocks].join("\n\n") : blocks.join("\n\n");
+  return new Blob([`${text}\n`], { type: captionFormats[format].mimeType });
+};
+
+const CAPTION_HIGHLIGHT = "#ffd34d";
+
+/**
+ * Draws rendered frames onto a 2D canvas with the cue at each frame's time
+ * burned in. Words already spoken are white, upcoming ones dimmed, and the
+ * word being spoken fills with the highlight color as it is said.
+ */
+export const createCaptionCompositor = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas 2D is not available for captions");
+  }
+  const fontSize = Math.round(Math.min(width, height) * 0.05);
+  const lineHeight = fontSize * 1.35;
+  const padding = fontSize * 0.5;
+
+  const drawCue = (cue: CaptionCue, time: number) => {
+    context.font = `600 ${fontSize}px system-ui, sans-serif`;
+    context.textBaseline = "middle";
+    const space = context.measureText(" ").width;
+    const label = cue.speaker ? `${cue.speaker}: ` : "";
+    const lines = cueLines(cue);
+    const widths = lines.map(
+      (line, index) =>
+        (index === 0 ? context.measureText(label).width : 0) +
+        line.reduce((sum, word) => sum + context.measureText(word.text).width, 0) +
+        space * Math.max(line.length - 1, 0)
+    );
+    const boxWidth = Math.max(...widths) + padding * 2;
+    const boxHeight = lines.length * lineHeight + padding;
+    const boxTop = height - height * 0.07 - boxHeight;
+
+    context.fillStyle = "rgba(4, 5, 12, 0.72)";
+    context.beginPath();
+    context.roundRect((width - boxWidth) / 2, boxTop, boxWidth, boxHeight, fontSize * 0.35);
+    context.fill();
+
+    lines.forEach((line, index) => {
+      const y = boxTop + padding / 2 + lineHeight * (index + 0.5);
+      let x = (width - widths[index]) / 2;
+      if (index === 0 && label) {
+        context.fillStyle = CAPTION_HIGHLIGHT;
+        context.fillText(label, x, y);
+        x += context.measureText(label).width;
+      }
+      for (const word of line) {
+        const wordWidth = context.measureText(word.text).width;
+        const progress = Math.min(Math.max((time - word.start) / (word.end - word.start), 0), 1);
+        context.fillStyle = progress > 0 ? "#ffffff" : "rgba(255, 255, 255, 0.55)";
+        context.fillText(word.text, x, y);
+        if (progress > 0 && progress < 1) {
+          context.save();
+          context.beginPath();
+          context.rect(x, y - lineHeight / 2, wordWidth * progress, lineHeight);
+          context.clip();
+          context.fillStyle = CAPTION_HIGHLIGHT;
+          context.fillText(word.text, x, y);
+          context.restore();
+        }
+        x += wordWidth + space;
+      }
+    });
+  };
+
+  return {
+    canvas,
+    compose: (frame: HTMLCanvasElement, cues: CaptionCue[], time: number) => {
+      context.clearRect(0, 0, width, height);
+      context.drawImage(frame, 0, 0, width, height);
+      const cue = cues.find((candidate) => candidate.start <= time && time < candidate.end);
+      if (cue) drawCue(cue, time);
+      return canvas;
+    }
+  };
+};
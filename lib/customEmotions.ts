@@ -0,0 +1,136 @@
+import type { EmotionPreset } from "@/lib/emotions";
+import { createId } from "@/lib/id";
+
+export const CUSTOM_EMOTIONS_STORAGE_KEY = "avatar-studio.custom-emotions";
+const FILE_VERSION = 1;
+
+type EmotionParameter = "mouthEnergy" | "handAmplitude" | "gazeIntensity" | "browLift";
+
+type ParameterLimit = {
+  label: string;
+  min: number;
+  max: number;
+};
+
+/**
+ * Ranges the engine is tuned for. Inside them speech rate, pitch and volume
+ * stay within their clamps and gestures stay on screen.
+ */
+export const emotionLimits: Record<EmotionParameter, ParameterLimit> = {
+  mouthEnergy: { label: "Mouth energy", min: 0, max: 1 },
+  handAmplitude: { label: "Hand amplitude", min: 0, max: 1 },
+  gazeIntensity: { label: "Gaze intensity", min: 0, max: 1 },
+  browLift: { label: "Brow lift", min: -0.5, max: 1 }
+};
+
+export const emotionParameters = Object.keys(emotionLimits) as EmotionParameter[];
+
+export const MAX_LABEL_LENGTH = 32;
+export const MAX_DESCRIPTION_LENGTH = 140;
+
+export const createCustomEmotionId = () => `custom-${createId()}`;
+
+export const createCustomEmotion = (base: EmotionPreset): EmotionPreset => ({
+  ...base,
+  id: createCustomEmotionId(),
+  label: `${base.label} (custom)`.slice(0, MAX_LABEL_LENGTH)
+});
+
+/**
+ * Checks an unknown value against the preset shape and the engine limits.
+ * Returns the cleaned preset, or throws with a message naming the bad field.
+ */
+export const validateEmotionPreset = (value: unknown): EmotionPreset => {
+  if (!value || typeof value !== "object") {
+    throw new Error("Preset must be an object");
+  }
+  const record = value as Record<string, unknown>;
+  const label = typeof record.label === "string" ? record.label.trim() : "";
+  if (!label) throw new Error("Preset needs a label");
+  if (label.length > MAX_LABEL_LENGTH) {
+    throw new Error(`"${label}": label is longer than ${MAX_LABEL_LENGTH} characters`);
+  }
+  const description = typeof record.description === "string" ? record.description.trim() : "";
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new Error(`"${label}": description is longer than ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  if (typeof record.color !== "string" || !/^#[0-9a-f]{6}$/i.test(record.color)) {
+    throw new Error(`"${label}": color must be a hex value like #ff7ad9`);
+  }
+  const id = typeof record.id === "string" && record.id.startsWith("custom-") ? record.id : null;
+  const preset: EmotionPreset = {
+    id: id ?? createCustomEmotionId(),
+    label,
+    description,
+    color: record.color.toLowerCase(),
+    mouthEnergy: 0,
+    handAmplitude: 0,
+    gazeIntensity: 0,
+    browLift: 0
+  };
+  for (const parameter of emotionParameters) {
+    const { min, max } = emotionLimits[parameter];
+    const amount = record[parameter];
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount < min || amount > max) {
+      throw new Error(`"${label}": ${parameter} must be a number between ${min} and ${max}`);
+    }
+    preset[parameter] = amount;
+  }
+  return preset;
+};
+
+export const loadCustomEmotions = (): EmotionPreset[] => {
+  try {
+    const stored = window.localStorage.getItem(CUSTOM_EMOTIONS_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((entry) => {
+      try {
+        return [validateEmotionPreset(entry)];
+      } catch (error) {
+        console.warn("Dropping invalid stored emotion preset", error);
+        return [];
+      }
+    });
+  } catch (error) {
+    console.warn("Could not read custom emotion presets", error);
+    return [];
+  }
+};
+
+export const saveCustomEmotions = (presets: EmotionPreset[]) => {
+  try {
+    window.localStorage.setItem(CUSTOM_EMOTIONS_STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.warn("Could not save custom emotion presets", error);
+  }
+};
+
+export const exportEmotionPresets = (presets: EmotionPreset[]) =>
+  new Blob([JSON.stringify({ version: FILE_VERSION, presets }, null, 2)], {
+    type: "application/json"
+  });
+
+/**
+ * Reads a shared preset file. Accepts the exported `{ version, presets }`
+ * shape, a bare array, or a single preset. Any invalid entry fails the whole
+ * import so a file is never half-applied.
+ */
+export const parseEmotionPresetFile = (text: string): EmotionPreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object" && "presets" in parsed
+      ? (parsed as { presets: unknown }).presets
+      : [parsed];
+  if (!Array.isArray(entries) || !entries.length) {
+    throw new Error("File contains no presets");
+  }
+  return entries.map(validateEmotionPreset);
+};
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { EmotionPreset } from "@/lib/emotions";
+import {
+  castPositions,
+  castStatesAt,
+  compileDialogue,
+  createCastMember,
+  restingLipState,
+  speakerAtChar,
+  timeTurns
+} from "@/lib/dialogue";
+
+const calm: EmotionPreset = {
+  id: "calm",
+  label: "Calm",
+  description: "",
+  color: "#66ccaa",
+  mouthEnergy: 0.4,
+  handAmplitude: 0.3,
+  gazeIntensity: 0.2,
+  browLift: 0
+};
+
+const excited: EmotionPreset = { ...calm, id: "excited", label: "Excited", browLift: 0.5 };
+
+const cast = [createCastMember("Ana", "a", calm), createCastMember("Ben", "b", excited)];
+
+describe("compileDialogue", () => {
+  const compiled = compileDialogue(
+    "Stage directions.\nAna: Hello there.\nben: Hi.\nNobody: still Ben.",
+    cast,
+    [calm, excited]
+  );
+
+  it("joins tagged lines into turns, continuing untagged ones", () => {
+    assert.ok(compiled);
+    assert.equal(compiled.script.text, "Hello there. Hi.\nNobody: still Ben.");
+    assert.deepEqual(compiled.scene.turns, [
+      { speaker: 0, start: 0, end: 12 },
+      { speaker: 1, start: 13, end: 35 }
+    ]);
+  });
+
+  it("opens each turn with its speaker's emotion after a pause", () => {
+    assert.deepEqual(compiled?.script.cues, [
+      { type: "emotion", charIndex: 0, emotion: calm },
+      { type: "pause", charIndex: 13, duration: 0.45 },
+      { type: "emotion", charIndex: 13, emotion: excited }
+    ]);
+  });
+
+  it("needs two cast members and at least one tagged line", () => {
+    assert.equal(compileDialogue("Ana: Hi.", cast.slice(0, 1), []), null);
+    assert.equal(compileDialogue("Just narration.", cast, []), null);
+  });
+
+  it("finds who speaks each character", () => {
+    assert.ok(compiled);
+    assert.equal(speakerAtChar(compiled.scene, 0), cast[0]);
+    assert.equal(speakerAtChar(compiled.scene, 13), cast[1]);
+    assert.equal(speakerAtChar({ cast, turns: [] }, 0), null);
+  });
+});
+
+describe("timeTurns", () => {
+  it("starts each turn a little before its first word and drops silent ones", () => {
+    const turns = [
+      { speaker: 0, start: 0, end: 12 },
+      { speaker: 1, start: 13, end: 16 },
+      { speaker: 0, start: 17, end: 20 }
+    ];
+    const words = [
+      { charIndex: 0, start: 0.1, end: 0.5 },
+      { charIndex: 6, start: 0.5, end: 1 },
+      { charIndex: 13, start: 1.5, end: 2 }
+    ];
+    assert.deepEqual(timeTurns(turns, words), [
+      { speaker: 0, start: 0, end: 1 },
+      { speaker: 1, start: 1.2, end: 2 }
+    ]);
+  });
+});
+
+describe("castPositions", () => {
+  it("spaces the cast evenly around the centre", () => {
+    assert.deepEqual(castPositions(1), [0]);
+    assert.deepEqual(castPositions(2), [-1.3, 1.3]);
+    assert.deepEqual(castPositions(3), [-2.6, 0, 2.6]);
+  });
+});
+
+describe("castStatesAt", () => {
+  const speaking = { ...restingLipState(1, 0, calm, 1), mouthOpen: 0.8 };
+  const turns = [
+    { speaker: 0, start: 0, end: 1 },
+    { speaker: 1, start: 1.2, end: 2 }
+  ];
+
+  it("gives the speaker's pose to whoever holds the turn", () => {
+    const [ana, ben] = castStatesAt(cast, turns, speaking, 0.5, 1);
+    assert.equal(ana.mouthOpen, 0.8);
+    assert.equal(ben.mouthOpen, 0.12);
+    assert.equal(ben.mood, excited);
+  });
+
+  it("hands the pose over once the turn passes", () => {
+    const [ana, ben] = castStatesAt(cast, turns, speaking, 1.9, 1);
+    assert.equal(ana.mouthOpen, 0.12);
+    assert.equal(ben.mouthOpen, 0.8);
+  });
+});
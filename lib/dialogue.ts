@@ -0,0 +1,218 @@
+import type { EmotionPreset } from "@/lib/emotions";
+import type { LipState } from "@/hooks/useLipSyncEngine";
+import { blendLipStates } from "@/lib/animationTrack";
+import { restArms } from "@/lib/gestures";
+import { createId } from "@/lib/id";
+import { clamp } from "@/lib/math";
+import { idleMotion, transitionProgress } from "@/lib/motion";
+import { parseScript, type ParsedScript, type ScriptCue } from "@/lib/scriptMarkup";
+import { createVisemeWeights } from "@/lib/visemes";
+
+/**
+ * A character in a dialogue scene. `name` is the tag that opens their lines
+ * in the script (`Alex: …`); `voice` names a browser voice or, for a TTS
+ * server, whatever voice id it understands, and empty means the default.
+ */
+export type CastMember = {
+  id: string;
+  name: string;
+  avatarId: string;
+  emotion: EmotionPreset;
+  voice: string;
+  pitch: number;
+};
+
+/** A run of the compiled text spoken by one cast member, as character offsets. */
+export type DialogueTurn = {
+  speaker: number;
+  start: number;
+  end: number;
+};
+
+/** A turn placed on the take's timeline, in seconds. */
+export type SceneTurn = {
+  speaker: number;
+  start: number;
+  end: number;
+};
+
+export type DialogueScene = {
+  cast: CastMember[];
+  turns: DialogueTurn[];
+};
+
+export const MAX_CAST = 4;
+export const CAST_SPACING = 2.6;
+
+/** Silence between one speaker's last word and the next speaker's first. */
+const TURN_GAP = 0.45;
+/** Listeners start turning toward the next speaker a little before they talk. */
+const TURN_LEAD = 0.3;
+const ATTENTION_SHIFT = 0.5;
+
+const TAG_PATTERN = /^\s*([^:[\]<>*\n]{1,32}):\s*/;
+
+export const createCastMember = (
+  name: string,
+  avatarId: string,
+  emotion: EmotionPreset
+): CastMember => ({
+  id: createId(),
+  name,
+  avatarId,
+  emotion,
+  voice: "",
+  pitch: 1
+});
+
+/**
+ * Turns a script written as speaker-tagged lines into one take. Each turn
+ * starts with its speaker's emotion and a short pause, so chunking, prosody
+ * and timing all work as for a single speaker. Untagged lines continue the
+ * previous turn. Returns null unless at least two cast members are set up
+ * and the script tags one of them.
+ */
+export const compileDialogue = (
+  source: string,
+  cast: CastMember[],
+  emotions: EmotionPreset[]
+): { script: ParsedScript; scene: DialogueScene } | null => {
+  if (cast.length < 2) return null;
+  const byName = new Map(cast.map((member, index) => [member.name.trim().toLowerCase(), index]));
+  const blocks: { speaker: number; lines: string[] }[] = [];
+  for (const line of source.split("\n")) {
+    const tag = line.match(TAG_PATTERN);
+    const speaker = tag ? byName.get(tag[1].trim().toLowerCase()) : undefined;
+    if (speaker !== undefined) {
+      blocks.push({ speaker, lines: [line.slice(tag![0].length)] });
+    } else if (blocks.length) {
+      blocks[blocks.length - 1].lines.push(line);
+    }
+  }
+  if (!blocks.length) return null;
+
+  let text = "";
+  const cues: ScriptCue[] = [];
+  const turns: DialogueTurn[] = [];
+  for (const block of blocks) {
+    const parsed = parseScript(block.lines.join("\n"), emotions);
+    if (!parsed.text.trim()) continue;
+    if (text) text += " ";
+    const start = text.length;
+    if (turns.length) cues.push({ type: "pause", charIndex: start, duration: TURN_GAP });
+    cues.push({ type: "emotion", charIndex: start, emotion: cast[block.speaker].emotion });
+    cues.push(...parsed.cues.map((cue) => ({ ...cue, charIndex: cue.charIndex + start })));
+    text += parsed.text;
+    turns.push({ speaker: block.speaker, start, end: text.length });
+  }
+  if (!turns.length) return null;
+  return {
+    script: { source, text, cues, spans: [], errors: [] },
+    scene: { cast, turns }
+  };
+};
+
+/** The cast member speaking the text at `charIndex`. */
+export const speakerAtChar = (scene: DialogueScene, charIndex: number) => {
+  const turn = scene.turns.find((candidate) => charIndex < candidate.end) ?? scene.turns[0];
+  return turn ? scene.cast[turn.speaker] : null;
+};
+
+/** Places turns on the timeline using the word timings of the take. */
+export const timeTurns = (
+  turns: DialogueTurn[],
+  words: { charIndex: number; start: number; end: number }[]
+): SceneTurn[] =>
+  turns.flatMap((turn) => {
+    const spoken = words.filter(
+      (word) => word.charIndex >= turn.start && word.charIndex < turn.end
+    );
+    if (!spoken.length) return [];
+    return [
+      {
+        speaker: turn.speaker,
+        start: Math.max(spoken[0].start - TURN_LEAD, 0),
+        end: spoken[spoken.length - 1].end
+      }
+    ];
+  });
+
+/** Stage x position of each cast member, left to right. */
+export const castPositions = (count: number) =>
+  Array.from({ length: count }, (_, index) => (index - (count - 1) / 2) * CAST_SPACING);
+
+/** A closed-mouthed pose with the given motion style; see `idleMotion`. */
+export const restingLipState = (
+  seed: number,
+  time: number,
+  mood: EmotionPreset,
+  engagement: number
+): LipState => {
+  const motion = idleMotion(seed, time, mood, 0, engagement);
+  return {
+    ...motion,
+    mouthOpen: 0.12,
+    mouthWidth: 0.2,
+    eyebrowLift: mood.browLift,
+    arms: restArms(motion.handLeft, motion.handRight),
+    visemes: createVisemeWeights(),
+    mood
+  };
+};
+
+/**
+ * One lip state per cast member at `time`. The current speaker gets
+ * `speakerState` and half-turns toward whoever they are answering; everyone
+ * else listens, turned toward the speaker. When the turn passes, heads and
+ * poses ease across over `ATTENTION_SHIFT` seconds.
+ */
+export const castStatesAt = (
+  cast: CastMember[],
+  turns: SceneTurn[],
+  speakerState: LipState,
+  time: number,
+  seed: number,
+  engagement = 1
+): LipState[] => {
+  const positions = castPositions(cast.length);
+  let current = -1;
+  for (let index = 0; index < turns.length && turns[index].start <= time; index += 1) {
+    current = index;
+  }
+  const speakerOf = (turn: number) => (turn >= 0 ? turns[turn].speaker : 0);
+  const addresseeOf = (turn: number) => {
+    const speaker = speakerOf(turn);
+    const previous = speakerOf(turn - 1);
+    if (previous !== speaker) return previous;
+    return speaker === 0 ? Math.min(1, cast.length - 1) : speaker - 1;
+  };
+  const facing = (member: number, turn: number) => {
+    const speaker = speakerOf(turn);
+    const target = member === speaker ? addresseeOf(turn) : speaker;
+    if (target === member) return 0;
+    return Math.sign(positions[target] - positions[member]) * (member === speaker ? 0.35 : 0.9);
+  };
+
+  const speaker = speakerOf(current);
+  const previous = current > 0 ? speakerOf(current - 1) : speaker;
+  const shift = current >= 0 ? transitionProgress(time - turns[current].start, ATTENTION_SHIFT) : 1;
+
+  return cast.map((member, index) => {
+    const listening = restingLipState(seed + (index + 1) * 7919, time, member.emotion, 0);
+    let state = listening;
+    if (index === speaker) {
+      state = previous === speaker ? speakerState : blendLipStates(listening, speakerState, shift);
+    } else if (index === previous) {
+      // Same seed and style the engine used while they spoke, so they settle without a jump.
+      const talking = restingLipState(seed, time, member.emotion, engagement);
+      state = blendLipStates(talking, listening, shift);
+    }
+    const before = facing(index, current - 1);
+    const yaw = before + (facing(index, current) - before) * shift;
+    return {
+      ...state,
+      headYaw: state.headYaw * 0.6 + yaw,
+      gazeX: clamp(state.gazeX * 0.4 + yaw * 0.4, -0.45, 0.45)
+    };
+  });
+};
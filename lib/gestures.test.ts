@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { EmotionPreset } from "@/lib/emotions";
+import {
+  armLift,
+  GESTURE_CLIPS,
+  keywordGesture,
+  mixArms,
+  moodGesture,
+  restArms,
+  sampleGestures
+} from "@/lib/gestures";
+import type { TimelineEvent } from "@/lib/motion";
+
+const lively: EmotionPreset = {
+  id: "lively",
+  label: "Lively",
+  description: "",
+  color: "#ffcc33",
+  mouthEnergy: 0.8,
+  handAmplitude: 1,
+  gazeIntensity: 0.6,
+  browLift: 0.4
+};
+
+const base = restArms(0, 0);
+const noHead = { headYaw: 0, headPitch: 0, headRoll: 0, eyebrowLift: 0 };
+
+const gesture = (name: "nod" | "wave" | "shrug", time = 0): TimelineEvent => ({
+  type: "gesture",
+  time,
+  gesture: name
+});
+
+describe("arm poses", () => {
+  it("rests both arms alike and lifts them with the hand sway, within limits", () => {
+    assert.deepEqual(base.left, base.right);
+    assert.deepEqual(restArms(5, -5), restArms(1.5, -0.3));
+    const lifted = restArms(1, 0);
+    assert.ok(Math.abs(armLift(lifted.left, base.left) - 0.4) < 1e-9);
+    assert.equal(armLift(lifted.right, base.right), 0);
+  });
+
+  it("mixes every joint linearly", () => {
+    const mixed = mixArms(base, restArms(1, 1), 0.5);
+    assert.deepEqual(mixed, restArms(0.5, 0.5));
+  });
+});
+
+describe("sampleGestures", () => {
+  it("leaves the base pose alone with nothing playing", () => {
+    assert.deepEqual(sampleGestures([], 1, base), { arms: base, head: noHead });
+  });
+
+  it("moves only the arms a clip uses and lets go once it ends", () => {
+    const wave = [gesture("wave")];
+    const waving = sampleGestures(wave, GESTURE_CLIPS.wave.duration / 2, base);
+    assert.deepEqual(waving.arms.left, base.left);
+    assert.ok(waving.arms.right.elbow > base.right.elbow);
+    assert.ok(waving.head.eyebrowLift > 0);
+    assert.deepEqual(sampleGestures(wave, 0, base), { arms: base, head: noHead });
+    assert.deepEqual(sampleGestures(wave, GESTURE_CLIPS.wave.duration + 0.01, base), {
+      arms: base,
+      head: noHead
+    });
+  });
+
+  it("mirrors two-armed clips and keeps head-only clips off the arms", () => {
+    const shrugging = sampleGestures([gesture("shrug")], 0.6, base);
+    assert.deepEqual(shrugging.arms.left, shrugging.arms.right);
+    assert.notDeepEqual(shrugging.arms.left, base.left);
+    const nodding = sampleGestures([gesture("nod")], 0.24, base);
+    assert.equal(nodding.arms, base);
+    assert.ok(nodding.head.headPitch > 0);
+  });
+
+  it("adds up head offsets from overlapping clips", () => {
+    const one = sampleGestures([gesture("nod")], 0.3, base).head.headPitch;
+    const two = sampleGestures([gesture("nod"), gesture("nod")], 0.3, base).head.headPitch;
+    assert.ok(Math.abs(two - one * 2) < 1e-9);
+  });
+});
+
+describe("keywordGesture", () => {
+  it("matches whole words regardless of case and punctuation", () => {
+    assert.equal(keywordGesture("Hello,"), "wave");
+    assert.equal(keywordGesture("FIRST!"), "count");
+    assert.equal(keywordGesture("nope."), "shake");
+    assert.equal(keywordGesture("shelf"), null);
+  });
+});
+
+describe("moodGesture", () => {
+  it("repeats for the same seed and never gestures when the hands are still", () => {
+    const rolls = Array.from({ length: 200 }, (_, index) => moodGesture(7, index, lively));
+    assert.deepEqual(rolls, rolls.map((_, index) => moodGesture(7, index, lively)));
+    assert.ok(rolls.some((roll) => roll !== null));
+    assert.ok(rolls.every((roll) => roll === null || ["palms", "nod", "shrug"].includes(roll)));
+    const still = { ...lively, handAmplitude: 0 };
+    assert.ok(rolls.every((_, index) => moodGesture(7, index, still) === null));
+  });
+});
@@ -0,0 +1,240 @@
+import type { EmotionPreset } from "@/lib/emotions";
+import { clamp, hashNoise } from "@/lib/math";
+import { transitionProgress, type TimelineEvent } from "@/lib/motion";
+import type { ScriptGesture } from "@/lib/scriptMarkup";
+
+export const ARM_JOINTS = ["raise", "spread", "elbow", "wrist", "fingers"] as const;
+
+export type ArmJoint = (typeof ARM_JOINTS)[number];
+
+/**
+ * One arm in normalized units that each renderer maps onto its own joints.
+ * `raise` swings the upper arm forward (1 is level with the shoulder),
+ * `spread` swings it out to the side, `elbow` bends the forearm up, `wrist`
+ * turns the palm from facing the body (0) to facing forward (1), and
+ * `fingers` counts how many are held out, from a fist (0) to an open hand (5).
+ */
+export type ArmPose = Record<ArmJoint, number>;
+
+export type ArmsPose = {
+  left: ArmPose;
+  right: ArmPose;
+};
+
+export type HeadOffsets = {
+  headYaw: number;
+  headPitch: number;
+  headRoll: number;
+  eyebrowLift: number;
+};
+
+type GestureKey = {
+  at: number;
+  arm: ArmPose;
+  head: HeadOffsets;
+};
+
+/** `arms` names the arms a clip moves; "both" mirrors one pose onto each side. */
+export type GestureClip = {
+  label: string;
+  duration: number;
+  arms: "none" | "right" | "both";
+  keys: GestureKey[];
+};
+
+const noHead: HeadOffsets = { headYaw: 0, headPitch: 0, headRoll: 0, eyebrowLift: 0 };
+
+const restArm: ArmPose = { raise: 0.1, spread: 0.08, elbow: 0.5, wrist: 0.2, fingers: 5 };
+
+/** Keys only list what changes; everything else carries over from the key before. */
+const defineClip = (
+  label: string,
+  duration: number,
+  arms: GestureClip["arms"],
+  keys: { at: number; arm?: Partial<ArmPose>; head?: Partial<HeadOffsets> }[]
+): GestureClip => {
+  let arm = restArm;
+  let head = noHead;
+  return {
+    label,
+    duration,
+    arms,
+    keys: keys.map((key) => {
+      arm = { ...arm, ...key.arm };
+      head = { ...head, ...key.head };
+      return { at: key.at, arm, head };
+    })
+  };
+};
+
+const waveArm = { raise: 0.35, spread: 0.6, elbow: 1.35, wrist: 1, fingers: 5 };
+const palmsArm = { raise: 0.45, spread: 0.25, elbow: 0.75, wrist: 1, fingers: 5 };
+
+export const GESTURE_CLIPS: Record<ScriptGesture, GestureClip> = {
+  nod: defineClip("Nod", 1.2, "none", [
+    { at: 0 },
+    { at: 0.2, head: { headPitch: 0.25 } },
+    { at: 0.45, head: { headPitch: -0.08 } },
+    { at: 0.7, head: { headPitch: 0.2 } },
+    { at: 1, head: { headPitch: 0 } }
+  ]),
+  shake: defineClip("Head shake", 1.2, "none", [
+    { at: 0 },
+    { at: 0.2, head: { headYaw: 0.35 } },
+    { at: 0.45, head: { headYaw: -0.35 } },
+    { at: 0.7, head: { headYaw: 0.3 } },
+    { at: 1, head: { headYaw: 0 } }
+  ]),
+  wave: defineClip("Wave", 1.8, "right", [
+    { at: 0, arm: waveArm, head: { headRoll: 0.05, eyebrowLift: 0.15 } },
+    { at: 0.3, arm: { spread: 0.8 } },
+    { at: 0.45, arm: { spread: 0.5 } },
+    { at: 0.6, arm: { spread: 0.8 } },
+    { at: 0.75, arm: { spread: 0.55 } },
+    { at: 1 }
+  ]),
+  shrug: defineClip("Shrug", 1.3, "both", [
+    { at: 0, arm: { raise: 0.2, spread: 0.3, elbow: 0.9, wrist: 1 } },
+    { at: 0.35, head: { headRoll: 0.1, eyebrowLift: 0.3 } },
+    { at: 0.65, arm: { spread: 0.38 } },
+    { at: 1 }
+  ]),
+  point: defineClip("Point", 1.4, "right", [
+    { at: 0, arm: { raise: 0.6, spread: 0.15, elbow: 0.5, wrist: 0, fingers: 1 } },
+    { at: 0.3, arm: { raise: 0.85, elbow: 0.1 }, head: { headYaw: 0.08 } },
+    { at: 1 }
+  ]),
+  count: defineClip("Count on fingers", 2.4, "right", [
+    { at: 0, arm: { raise: 0.45, spread: 0.1, elbow: 1.2, wrist: 0.9, fingers: 1 } },
+    { at: 0.3, arm: { fingers: 1 }, head: { headPitch: 0.06 } },
+    { at: 0.4, arm: { fingers: 2 }, head: { headPitch: 0 } },
+    { at: 0.6, arm: { fingers: 2 }, head: { headPitch: 0.06 } },
+    { at: 0.7, arm: { fingers: 3 }, head: { headPitch: 0 } },
+    { at: 1 }
+  ]),
+  palms: defineClip("Open palms", 1.6, "both", [
+    { at: 0, arm: palmsArm },
+    { at: 0.4, arm: { spread: 0.5 }, head: { eyebrowLift: 0.2 } },
+    { at: 1 }
+  ])
+};
+
+/** How far into its clip a gesture fades in and starts fading out again. */
+const GESTURE_FADE = 0.2;
+
+const mixArm = (from: ArmPose, to: ArmPose, amount: number) =>
+  Object.fromEntries(
+    ARM_JOINTS.map((joint) => [joint, from[joint] + (to[joint] - from[joint]) * amount])
+  ) as ArmPose;
+
+export const mixArms = (from: ArmsPose, to: ArmsPose, amount: number): ArmsPose => ({
+  left: mixArm(from.left, to.left, amount),
+  right: mixArm(from.right, to.right, amount)
+});
+
+/** The talking pose the arms rest in, lifted by the `handLeft`/`handRight` sway. */
+export const restArms = (handLeft: number, handRight: number): ArmsPose => {
+  const lifted = (hand: number): ArmPose => {
+    const lift = clamp(hand, -0.3, 1.5);
+    return {
+      raise: restArm.raise + lift * 0.3,
+      spread: restArm.spread + lift * 0.1,
+      elbow: restArm.elbow + lift * 0.45,
+      wrist: restArm.wrist + lift * 0.35,
+      fingers: restArm.fingers
+    };
+  };
+  return { left: lifted(handLeft), right: lifted(handRight) };
+};
+
+/**
+ * How much higher and wider `arm` is held than `rest`. Renderers without
+ * jointed arms read gestures through this on `handLeft`/`handRight`.
+ */
+export const armLift = (arm: ArmPose, rest: ArmPose) =>
+  arm.raise - rest.raise + arm.spread - rest.spread;
+
+const sampleClip = (clip: GestureClip, phase: number) => {
+  const { keys } = clip;
+  let index = keys.findIndex((key) => key.at > phase);
+  if (index < 0) index = keys.length;
+  const next = keys[Math.min(index, keys.length - 1)];
+  const prev = keys[Math.max(index - 1, 0)];
+  const amount = transitionProgress(phase - prev.at, next.at - prev.at);
+  const head = { ...noHead };
+  for (const key of Object.keys(head) as (keyof HeadOffsets)[]) {
+    head[key] = prev.head[key] + (next.head[key] - prev.head[key]) * amount;
+  }
+  return { arm: mixArm(prev.arm, next.arm, amount), head };
+};
+
+/**
+ * Layers every gesture playing at `time` over the `base` arm pose. Each clip
+ * fades in and out across `GESTURE_FADE` of its length, head offsets add up,
+ * and where two clips share an arm the later one wins.
+ */
+export const sampleGestures = (events: TimelineEvent[], time: number, base: ArmsPose) => {
+  let arms = base;
+  const head = { ...noHead };
+  for (const event of events) {
+    if (event.type !== "gesture") continue;
+    const clip = GESTURE_CLIPS[event.gesture];
+    const phase = (time - event.time) / clip.duration;
+    if (phase < 0 || phase > 1) continue;
+    const weight = Math.min(
+      transitionProgress(phase, GESTURE_FADE),
+      transitionProgress(1 - phase, GESTURE_FADE)
+    );
+    const pose = sampleClip(clip, phase);
+    for (const key of Object.keys(head) as (keyof HeadOffsets)[]) {
+      head[key] += pose.head[key] * weight;
+    }
+    if (clip.arms !== "none") {
+      arms = {
+        left: clip.arms === "both" ? mixArm(arms.left, pose.arm, weight) : arms.left,
+        right: mixArm(arms.right, pose.arm, weight)
+      };
+    }
+  }
+  return { arms, head };
+};
+
+const KEYWORD_GESTURES: [RegExp, ScriptGesture][] = [
+  [/^(hi|hello|hey|bye|goodbye|welcome)$/, "wave"],
+  [/^(you|yours|look|there)$/, "point"],
+  [/^(first|firstly|second|secondly|third|thirdly)$/, "count"],
+  [/^(maybe|perhaps|whatever|dunno|somehow)$/, "shrug"],
+  [/^(yes|yeah|yep|exactly|absolutely|agreed)$/, "nod"],
+  [/^(no|nope|never|nothing)$/, "shake"],
+  [/^(everyone|everybody|together|imagine)$/, "palms"]
+];
+
+/** The gesture a spoken word calls for, if any. */
+export const keywordGesture = (word: string) => {
+  const key = word.toLowerCase().replace(/[^a-z]/g, "");
+  return KEYWORD_GESTURES.find(([pattern]) => pattern.test(key))?.[1] ?? null;
+};
+
+/**
+ * Rolls for an unscripted beat gesture on word `index`. Livelier moods gesture
+ * more often, and the seed makes every roll repeatable.
+ */
+export const moodGesture = (
+  seed: number,
+  index: number,
+  emotion: EmotionPreset
+): ScriptGesture | null => {
+  if (hashNoise(seed, 40, index) > emotion.handAmplitude * 0.12) return null;
+  const weights: [ScriptGesture, number][] = [
+    ["palms", emotion.handAmplitude],
+    ["nod", emotion.gazeIntensity * 0.6],
+    ["shrug", Math.max(emotion.browLift, 0) * 0.4]
+  ];
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = hashNoise(seed, 41, index) * total;
+  for (const [gesture, weight] of weights) {
+    roll -= weight;
+    if (roll <= 0) return gesture;
+  }
+  return null;
+};
@@ -0,0 +1,9 @@
+/**
+ * `crypto.randomUUID` only exists in secure contexts, so the studio opened
+ * over plain HTTP on a LAN address falls back to random bytes.
+ */
+export const createId = () => {
+  if (typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
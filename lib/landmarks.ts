@@ -0,0 +1,165 @@
+import type { AvatarPreset } from "@/lib/presets";
+
+/** A point in image space: 0–1 from the left and top edges. */
+export type LandmarkPoint = {
+  x: number;
+  y: number;
+};
+
+export const LANDMARK_KEYS = [
+  "leftBrow",
+  "rightBrow",
+  "leftEye",
+  "rightEye",
+  "mouthLeft",
+  "mouthRight",
+  "jaw"
+] as const;
+
+export type LandmarkKey = (typeof LANDMARK_KEYS)[number];
+
+export type FaceLandmarks = Record<LandmarkKey, LandmarkPoint>;
+
+export type PortraitPreset = Extract<AvatarPreset, { type: "image" }> & {
+  landmarks?: FaceLandmarks;
+};
+
+export const landmarkLabels: Record<LandmarkKey, string> = {
+  leftBrow: "Left brow",
+  rightBrow: "Right brow",
+  leftEye: "Left eye",
+  rightEye: "Right eye",
+  mouthLeft: "Mouth left",
+  mouthRight: "Mouth right",
+  jaw: "Chin"
+};
+
+/** Matches the fixed overlay placement the built-in portraits were drawn for. */
+export const defaultLandmarks: FaceLandmarks = {
+  leftBrow: { x: 0.3625, y: 0.55 },
+  rightBrow: { x: 0.6375, y: 0.55 },
+  leftEye: { x: 0.38, y: 0.59 },
+  rightEye: { x: 0.62, y: 0.59 },
+  mouthLeft: { x: 0.39, y: 0.65 },
+  mouthRight: { x: 0.61, y: 0.65 },
+  jaw: { x: 0.5, y: 0.76 }
+};
+
+export const isFaceLandmarks = (value: unknown): value is FaceLandmarks =>
+  Boolean(value) &&
+  typeof value === "object" &&
+  LANDMARK_KEYS.every((key) => {
+    const point = (value as Record<string, unknown>)[key] as Partial<LandmarkPoint> | undefined;
+    return (
+      typeof point?.x === "number" &&
+      typeof point.y === "number" &&
+      point.x >= 0 &&
+      point.x <= 1 &&
+      point.y >= 0 &&
+      point.y <= 1
+    );
+  });
+
+type DetectedFace = {
+  boundingBox: DOMRectReadOnly;
+  landmarks?: { type: "eye" | "mouth" | "nose"; locations: { x: number; y: number }[] }[];
+};
+
+type FaceDetectorConstructor = new (options?: {
+  fastMode?: boolean;
+  maxDetectedFaces?: number;
+}) => { detect: (image: ImageBitmapSource) => Promise<DetectedFace[]> };
+
+export const canDetectLandmarks = () => typeof window !== "undefined" && "FaceDetector" in window;
+
+const centroid = (points: { x: number; y: number }[]) => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+});
+
+/**
+ * Pre-fills the calibration handles with the browser's built-in shape
+ * detection, which runs locally and needs no model download. Only eyes and
+ * mouth come back, so brows, mouth corners and chin are estimated from face
+ * proportions. Returns null when detection is unavailable or finds no face.
+ */
+export const detectLandmarks = async (image: HTMLImageElement): Promise<FaceLandmarks | null> => {
+  if (!canDetectLandmarks()) return null;
+  const Detector = (window as unknown as { FaceDetector: FaceDetectorConstructor }).FaceDetector;
+  const [face] = await new Detector({ fastMode: false, maxDetectedFaces: 1 }).detect(image);
+  if (!face) return null;
+
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const box = face.boundingBox;
+  const eyes = (face.landmarks ?? [])
+    .filter((landmark) => landmark.type === "eye")
+    .map((landmark) => centroid(landmark.locations))
+    .sort((a, b) => a.x - b.x);
+  const mouth = face.landmarks?.find((landmark) => landmark.type === "mouth");
+
+  const leftEye = eyes[0] ?? { x: box.x + box.width * 0.3, y: box.y + box.height * 0.4 };
+  const rightEye = eyes[1] ?? { x: box.x + box.width * 0.7, y: box.y + box.height * 0.4 };
+  const eyeSpan = rightEye.x - leftEye.x;
+  const mouthCenter = mouth
+    ? centroid(mouth.locations)
+    : { x: box.x + box.width / 2, y: box.y + box.height * 0.75 };
+  const mouthHalf = mouth
+    ? Math.max(...mouth.locations.map((point) => Math.abs(point.x - mouthCenter.x)), eyeSpan * 0.3)
+    : eyeSpan * 0.4;
+
+  const point = (x: number, y: number) => ({
+    x: Math.min(Math.max(x / width, 0), 1),
+    y: Math.min(Math.max(y / height, 0), 1)
+  });
+  return {
+    leftBrow: point(leftEye.x, leftEye.y - eyeSpan * 0.3),
+    rightBrow: point(rightEye.x, rightEye.y - eyeSpan * 0.3),
+    leftEye: point(leftEye.x, leftEye.y),
+    rightEye: point(rightEye.x, rightEye.y),
+    mouthLeft: point(mouthCenter.x - mouthHalf, mouthCenter.y),
+    mouthRight: point(mouthCenter.x + mouthHalf, mouthCenter.y),
+    jaw: point(mouthCenter.x, Math.min(box.y + box.height, mouthCenter.y + eyeSpan * 0.7))
+  };
+};
+
+/**
+ * Averages the photo just above both eyes, between eye and brow, to get an
+ * eyelid color for the flat overlay. Falls back to a neutral skin tone when
+ * the pixels can't be read.
+ */
+export const sampleLidColor = (image: HTMLImageElement, landmarks: FaceLandmarks) => {
+  const fallback = "#c8957a";
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context || !canvas.width || !canvas.height) return fallback;
+  context.drawImage(image, 0, 0);
+
+  const total = [0, 0, 0];
+  let count = 0;
+  const patch = Math.max(1, Math.round(canvas.width * 0.01));
+  for (const [eye, brow] of [
+    [landmarks.leftEye, landmarks.leftBrow],
+    [landmarks.rightEye, landmarks.rightBrow]
+  ]) {
+    const x = Math.round(eye.x * canvas.width);
+    const y = Math.round(((eye.y + brow.y) / 2) * canvas.height);
+    try {
+      const { data } = context.getImageData(x - patch, y - patch, patch * 2, patch * 2);
+      for (let i = 0; i < data.length; i += 4) {
+        total[0] += data[i];
+        total[1] += data[i + 1];
+        total[2] += data[i + 2];
+        count += 1;
+      }
+    } catch {
+      return fallback;
+    }
+  }
+  if (!count) return fallback;
+  return `#${total
+    .map((sum) => Math.round(sum / count).toString(16).padStart(2, "0"))
+    .join("")}`;
+};
@@ -0,0 +1,29 @@
+export const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+export const createSeeder = (seed: number) => {
+  let value = seed * 10_000;
+  return () => {
+    value = Math.sin(value + 0.12345) * 43758.5453;
+    return value - Math.floor(value);
+  };
+};
+
+/** New takes get whole-number seeds so they are easy to read out and retype. */
+export const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+/** Stateless counterpart to `createSeeder`: the same keys always give the same value. */
+export const hashNoise = (seed: number, channel: number, index = 0) => {
+  const value = Math.sin(seed * 12.9898 + channel * 78.233 + index * 37.719) * 43758.5453;
+  return value - Math.floor(value);
+};
+
+/** Smooth noise in [-1, 1], one random knot per unit of `time`. */
+export const valueNoise = (seed: number, channel: number, time: number) => {
+  const index = Math.floor(time);
+  const t = time - index;
+  const eased = t * t * (3 - 2 * t);
+  const from = hashNoise(seed, channel, index);
+  const to = hashNoise(seed, channel, index + 1);
+  return (from + (to - from) * eased) * 2 - 1;
+};
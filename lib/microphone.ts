@@ -0,0 +1,93 @@
+export type MicStreamFactory = (ctx: AudioContext) => Promise<MediaStream>;
+
+const RECORDING_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4"];
+
+export const isMicSupported = () =>
+  typeof navigator !== "undefined" && Boolean(navigator.mediaDevices?.getUserMedia);
+
+/**
+ * Asks for a mono voice stream. Echo cancellation matters even though the mic
+ * is never played back: the avatar's own audio from a previous take may still
+ * be coming out of the speakers.
+ */
+export const requestMicStream: MicStreamFactory = () =>
+  navigator.mediaDevices.getUserMedia({
+    audio: {
+      channelCount: 1,
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true
+    },
+    video: false
+  });
+
+/**
+ * A stand-in microphone for automated tests and demos without a mic: a buzzy
+ * voice-like tone whose loudness and formant move at syllable rate, delivered
+ * as a real `MediaStream` so it exercises the same pipeline as `getUserMedia`.
+ */
+export const createSyntheticMicStream: MicStreamFactory = async (ctx) => {
+  const destination = ctx.createMediaStreamDestination();
+  const voice = ctx.createOscillator();
+  voice.type = "sawtooth";
+  voice.frequency.value = 140;
+
+  const formant = ctx.createBiquadFilter();
+  formant.type = "bandpass";
+  formant.Q.value = 4;
+  formant.frequency.value = 900;
+  const formantSweep = ctx.createOscillator();
+  formantSweep.frequency.value = 1.3;
+  const formantDepth = ctx.createGain();
+  formantDepth.gain.value = 600;
+  formantSweep.connect(formantDepth).connect(formant.frequency);
+
+  const envelope = ctx.createGain();
+  envelope.gain.value = 0.25;
+  const syllables = ctx.createOscillator();
+  syllables.frequency.value = 4;
+  const syllableDepth = ctx.createGain();
+  syllableDepth.gain.value = 0.25;
+  syllables.connect(syllableDepth).connect(envelope.gain);
+
+  voice.connect(formant).connect(envelope).connect(destination);
+  const oscillators = [voice, formantSweep, syllables];
+  for (const oscillator of oscillators) {
+    oscillator.start();
+  }
+
+  const [track] = destination.stream.getAudioTracks();
+  const stopTrack = track.stop.bind(track);
+  track.stop = () => {
+    for (const oscillator of oscillators) {
+      oscillator.stop();
+    }
+    stopTrack();
+  };
+  return destination.stream;
+};
+
+export const createMicRecorder = (stream: MediaStream) => {
+  const mimeType = RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size) chunks.push(event.data);
+  };
+
+  const finished = new Promise<File | null>((resolve) => {
+    recorder.onstop = () => {
+      if (!chunks.length) {
+        resolve(null);
+        return;
+      }
+      const type = recorder.mimeType || chunks[0].type;
+      const extension = type.includes("ogg") ? "ogg" : type.includes("mp4") ? "m4a" : "webm";
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+      resolve(new File(chunks, `mic-take-${stamp}.${extension}`, { type }));
+    };
+  });
+
+  recorder.start(250);
+  return { recorder, finished };
+};
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { EmotionPreset } from "@/lib/emotions";
+import {
+  blendEmotions,
+  emotionAt,
+  idleMotion,
+  transitionProgress,
+  withKeyframes,
+  type TimelineEvent
+} from "@/lib/motion";
+
+const calm: EmotionPreset = {
+  id: "calm",
+  label: "Calm",
+  description: "",
+  color: "#000000",
+  mouthEnergy: 0.25,
+  handAmplitude: 0.3,
+  gazeIntensity: 0.2,
+  browLift: 0
+};
+
+const excited: EmotionPreset = {
+  ...calm,
+  id: "excited",
+  label: "Excited",
+  color: "#ffffff",
+  mouthEnergy: 0.75,
+  browLift: 0.5
+};
+
+describe("blendEmotions", () => {
+  it("mixes colour and style toward the target", () => {
+    const mixed = blendEmotions(calm, excited, 0.5);
+    assert.equal(mixed.id, "excited");
+    assert.equal(mixed.color, "#808080");
+    assert.equal(mixed.mouthEnergy, 0.5);
+    assert.equal(mixed.browLift, 0.25);
+  });
+
+  it("returns either end unchanged outside the blend", () => {
+    assert.equal(blendEmotions(calm, excited, 0), calm);
+    assert.equal(blendEmotions(calm, excited, 1.5), excited);
+  });
+});
+
+describe("transitionProgress", () => {
+  it("eases from zero to one and cuts when there is no transition", () => {
+    assert.equal(transitionProgress(-1, 2), 0);
+    assert.equal(transitionProgress(1, 2), 0.5);
+    assert.equal(transitionProgress(3, 2), 1);
+    assert.ok(transitionProgress(0.25, 2) < 0.125);
+    assert.equal(transitionProgress(0, 0), 1);
+    assert.equal(transitionProgress(-0.1, 0), 0);
+  });
+});
+
+describe("emotionAt", () => {
+  const events: TimelineEvent[] = [
+    { type: "emotion", time: 1, emotion: excited },
+    { type: "gesture", time: 1.2, gesture: "nod" },
+    { type: "emotion", time: 1.5, emotion: calm }
+  ];
+
+  it("holds the fallback until the first emotion and settles on the last", () => {
+    assert.equal(emotionAt(events, 0.5, calm, 1), calm);
+    assert.equal(emotionAt(events, 3, calm, 1), calm);
+    assert.equal(emotionAt(events, 1.2, calm), excited);
+  });
+
+  it("eases each switch in from whatever blend was showing", () => {
+    assert.equal(emotionAt(events, 1.5, calm, 1).mouthEnergy, 0.5);
+    assert.ok(emotionAt(events, 1.6, calm, 1).mouthEnergy < 0.5);
+  });
+});
+
+describe("withKeyframes", () => {
+  it("places keyframes at their fraction of the take, in time order", () => {
+    const events: TimelineEvent[] = [
+      { type: "gesture", time: 2, gesture: "wave" },
+      { type: "emotion", time: 5, emotion: calm }
+    ];
+    const timed = withKeyframes(events, [{ id: "k", at: 0.5, emotion: excited }], 6);
+    assert.deepEqual(
+      timed.map((event) => [event.type, event.time]),
+      [
+        ["gesture", 2],
+        ["emotion", 3],
+        ["emotion", 5]
+      ]
+    );
+  });
+});
+
+describe("idleMotion", () => {
+  const times = Array.from({ length: 36 * 60 }, (_, frame) => frame / 60);
+
+  it("replays the same take for the same seed in any order", () => {
+    const forward = times.map((time) => idleMotion(42, time, calm, 0.5));
+    const backward = [...times].reverse().map((time) => idleMotion(42, time, calm, 0.5));
+    assert.deepEqual(forward, backward.reverse());
+    assert.notDeepEqual(idleMotion(43, 1, calm, 0.5), forward[60]);
+  });
+
+  it("blinks once in every few seconds and keeps the lids in range", () => {
+    const blinks = times.map((time) => idleMotion(7, time, calm, 0).blink);
+    assert.ok(blinks.every((blink) => blink >= 0 && blink <= 1));
+    const interval = 216; // 3.6 s at 60 fps
+    for (let start = 0; start + interval <= blinks.length; start += interval) {
+      assert.ok(blinks.slice(start, start + interval).some((blink) => blink > 0.5));
+    }
+  });
+
+  it("only moves the hands with the mouth while engaged", () => {
+    const resting = idleMotion(7, 2, calm, 1, 0);
+    assert.ok(Math.abs(resting.handLeft) <= 0.04 && Math.abs(resting.handRight) <= 0.04);
+    assert.deepEqual(resting, idleMotion(7, 2, calm, 0, 0));
+    assert.ok(idleMotion(7, 2, calm, 1).handRight > idleMotion(7, 2, calm, 0).handRight);
+  });
+});
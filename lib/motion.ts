@@ -0,0 +1,215 @@
+import type { EmotionPreset } from "@/lib/emotions";
+import { hashNoise, valueNoise } from "@/lib/math";
+import type { ScriptGesture } from "@/lib/scriptMarkup";
+
+export type TimelineEvent =
+  | { type: "emotion"; time: number; emotion: EmotionPreset }
+  | { type: "gesture"; time: number; gesture: ScriptGesture };
+
+/** `at` is a fraction of the take, so keyframes survive changes in voice speed. */
+export type EmotionKeyframe = {
+  id: string;
+  at: number;
+  emotion: EmotionPreset;
+};
+
+const parseHex = (color: string) => {
+  const match = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, "$&$&") : match[1];
+  return [0, 2, 4].map((offset) => parseInt(hex.slice(offset, offset + 2), 16));
+};
+
+const mixColor = (from: string, to: string, amount: number) => {
+  const a = parseHex(from);
+  const b = parseHex(to);
+  if (!a || !b) return amount < 0.5 ? from : to;
+  const channels = a.map((value, index) =>
+    Math.round(value + (b[index] - value) * amount)
+      .toString(16)
+      .padStart(2, "0")
+  );
+  return `#${channels.join("")}`;
+};
+
+const lerp = (from: number, to: number, amount: number) => from + (to - from) * amount;
+
+export const blendEmotions = (
+  from: EmotionPreset,
+  to: EmotionPreset,
+  amount: number
+): EmotionPreset => {
+  if (amount <= 0) return from;
+  if (amount >= 1 || from === to) return to;
+  return {
+    ...to,
+    color: mixColor(from.color, to.color, amount),
+    mouthEnergy: lerp(from.mouthEnergy, to.mouthEnergy, amount),
+    handAmplitude: lerp(from.handAmplitude, to.handAmplitude, amount),
+    gazeIntensity: lerp(from.gazeIntensity, to.gazeIntensity, amount),
+    browLift: lerp(from.browLift, to.browLift, amount)
+  };
+};
+
+/** Smoothstepped progress through a transition; zero-length transitions cut. */
+export const transitionProgress = (elapsed: number, duration: number) => {
+  if (duration <= 0) return elapsed >= 0 ? 1 : 0;
+  const t = Math.min(Math.max(elapsed / duration, 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Resolves the emotion at `time`. Every emotion event eases in from whatever
+ * blend was showing when it fired, so back-to-back switches never jump.
+ */
+export const emotionAt = (
+  events: TimelineEvent[],
+  time: number,
+  fallback: EmotionPreset,
+  transition = 0
+) => {
+  let from = fallback;
+  let to = fallback;
+  let start = Number.NEGATIVE_INFINITY;
+  for (const event of events) {
+    if (event.time > time) break;
+    if (event.type !== "emotion") continue;
+    from = blendEmotions(from, to, transitionProgress(event.time - start, transition));
+    to = event.emotion;
+    start = event.time;
+  }
+  return blendEmotions(from, to, transitionProgress(time - start, transition));
+};
+
+export const withKeyframes = (
+  events: TimelineEvent[],
+  keyframes: EmotionKeyframe[],
+  duration: number
+) =>
+  [
+    ...events,
+    ...keyframes.map(
+      (keyframe): TimelineEvent => ({
+        type: "emotion",
+        time: keyframe.at * duration,
+        emotion: keyframe.emotion
+      })
+    )
+  ].sort((a, b) => a.time - b.time);
+
+export type IdleMotion = {
+  blink: number;
+  headYaw: number;
+  headPitch: number;
+  headRoll: number;
+  gazeX: number;
+  gazeY: number;
+  handLeft: number;
+  handRight: number;
+  bodySway: number;
+};
+
+const BLINK_INTERVAL = 3.6;
+const FIXATION_INTERVAL = 1.8;
+const MICRO_SACCADE_INTERVAL = 0.5;
+const SACCADE_TIME = 0.05;
+
+/** Lids close fast and reopen slower, like a real blink. */
+const blinkPulse = (elapsed: number) => {
+  if (elapsed < 0 || elapsed > 0.22) return 0;
+  return elapsed < 0.08 ? elapsed / 0.08 : 1 - (elapsed - 0.08) / 0.14;
+};
+
+/** A sine whose period and phase are fixed per seed and channel. */
+const seededWave = (seed: number, channel: number, time: number, period: number, spread = 0) =>
+  Math.sin(
+    time / (period + hashNoise(seed, channel) * spread) + hashNoise(seed, channel, 1) * Math.PI * 2
+  );
+
+/**
+ * Which hold the eyes are in at `time` and how far the saccade into it has
+ * got. Each interval holds one randomly timed jump.
+ */
+const fixationAt = (seed: number, channel: number, time: number, interval: number) => {
+  const jumpAt = (cell: number) => (cell + hashNoise(seed, channel, cell) * 0.8) * interval;
+  let cell = Math.floor(time / interval);
+  if (time < jumpAt(cell)) cell -= 1;
+  return { cell, progress: transitionProgress(time - jumpAt(cell), SACCADE_TIME) };
+};
+
+/** Target of a fixation in [-1, 1], eased from the previous one. */
+const fixationTarget = (
+  seed: number,
+  channel: number,
+  { cell, progress }: { cell: number; progress: number }
+) => {
+  const from = hashNoise(seed, channel, cell - 1) * 2 - 1;
+  const to = hashNoise(seed, channel, cell) * 2 - 1;
+  return from + (to - from) * progress;
+};
+
+/**
+ * Procedural blinks, breathing, gaze and head drift at take time `time`
+ * (seconds). It keeps no state, so the same seed replays the same take at any
+ * frame rate, in preview and in export alike. `engagement` blends from the
+ * resting idle style (0) to the livelier speaking style (1).
+ */
+export const idleMotion = (
+  seed: number,
+  time: number,
+  mood: EmotionPreset,
+  mouth: number,
+  engagement = 1
+): IdleMotion => {
+  const cell = Math.floor(time / BLINK_INTERVAL);
+  const blinkAt = cell * BLINK_INTERVAL + hashNoise(seed, 0, cell) * (BLINK_INTERVAL - 0.6);
+  const doubleBlink = hashNoise(seed, 1, cell) < 0.12;
+  const blink = Math.max(
+    blinkPulse(time - blinkAt),
+    doubleBlink ? blinkPulse(time - blinkAt - 0.3) : 0
+  );
+
+  const fixation = fixationAt(seed, 10, time, FIXATION_INTERVAL);
+  const micro = fixationAt(seed, 13, time, MICRO_SACCADE_INTERVAL);
+  const fixX = fixationTarget(seed, 11, fixation);
+  const fixY = fixationTarget(seed, 12, fixation);
+  const microX = fixationTarget(seed, 14, micro) * 0.035;
+  const microY = fixationTarget(seed, 15, micro) * 0.03;
+
+  const breath = seededWave(seed, 16, time, 0.65, 0.1);
+  const driftYaw = valueNoise(seed, 17, time * 0.15);
+  const driftPitch = valueNoise(seed, 18, time * 0.12);
+  const driftRoll = valueNoise(seed, 19, time * 0.1);
+
+  const emotionInfluence = mood.handAmplitude;
+  const resting: IdleMotion = {
+    blink,
+    headYaw: driftYaw * 0.1 + fixX * 0.06,
+    headPitch: driftPitch * 0.06 + breath * 0.02 + (mood.browLift * 0.1 - 0.04),
+    headRoll: driftRoll * 0.05,
+    gazeX: fixX * 0.5 + microX,
+    gazeY: fixY * 0.3 + microY,
+    handLeft: valueNoise(seed, 7, time * 0.4) * 0.04,
+    handRight: valueNoise(seed, 8, time * 0.4) * 0.04,
+    bodySway: breath * 0.12
+  };
+  const speaking: IdleMotion = {
+    blink,
+    headYaw:
+      seededWave(seed, 2, time, 2.3) * 0.25 + mouth * 0.08 * (mood.gazeIntensity + 0.2),
+    headPitch: seededWave(seed, 3, time, 3.1, 0.5) * 0.18 + (mood.browLift * 0.15 - 0.05),
+    headRoll: seededWave(seed, 4, time, 4.1, 0.5) * 0.14,
+    gazeX: fixX * 0.45 * (mood.gazeIntensity + 0.3) + microX,
+    gazeY: fixY * 0.35 * (mood.gazeIntensity + 0.2) + microY,
+    handLeft: mouth * (0.5 + emotionInfluence) + valueNoise(seed, 7, time * 1.25) * 0.2,
+    handRight: mouth * (0.45 + emotionInfluence * 1.1) + valueNoise(seed, 8, time * 1.1) * 0.25,
+    bodySway: seededWave(seed, 9, time, 2.5) * 0.25 + breath * 0.06 + mouth * 0.2
+  };
+
+  const motion = { ...resting };
+  for (const key of Object.keys(motion) as (keyof IdleMotion)[]) {
+    motion[key] += (speaking[key] - resting[key]) * engagement;
+  }
+  motion.blink *= 1 - mood.gazeIntensity * 0.2;
+  return motion;
+};
@@ -0,0 +1,200 @@
+import type { IUniform, WebGLProgramParametersWithUniforms } from "three";
+import { clamp } from "@/lib/math";
+
+export type PortraitStyle = "warp" | "overlay";
+
+/** Two-core machines get the flat overlay, which costs nothing per pixel. */
+export const defaultPortraitStyle = (): PortraitStyle =>
+  typeof navigator !== "undefined" && navigator.hardwareConcurrency <= 2 ? "overlay" : "warp";
+
+type Vec2 = [number, number];
+
+export type WarpUniforms = {
+  uPlaneSize: IUniform<Vec2>;
+  uMouthCenter: IUniform<Vec2>;
+  uMouthAxis: IUniform<Vec2>;
+  uMouthHalf: IUniform<number>;
+  uJawDepth: IUniform<number>;
+  uGap: IUniform<number>;
+  uStretch: IUniform<number>;
+  uEyeLeft: IUniform<Vec2>;
+  uEyeRight: IUniform<Vec2>;
+  uEyeAxis: IUniform<Vec2>;
+  uEyeHalf: IUniform<number>;
+  uBlink: IUniform<number>;
+  uGaze: IUniform<Vec2>;
+};
+
+export type WarpGeometry = {
+  planeWidth: number;
+  planeHeight: number;
+  mouthX: number;
+  mouthY: number;
+  mouthAngle: number;
+  mouthWidth: number;
+  jawDepth: number;
+  eyeLeft: Vec2;
+  eyeRight: Vec2;
+  eyeAngle: number;
+  eyeWidth: number;
+};
+
+export type WarpPose = {
+  open: number;
+  width: number;
+  round: number;
+  closure: number;
+  blink: number;
+  gazeX: number;
+  gazeY: number;
+};
+
+/** Eye openings are drawn as ellipses this much shorter than they are wide. */
+export const EYE_ASPECT = 0.55;
+
+export const createWarpUniforms = (): WarpUniforms => ({
+  uPlaneSize: { value: [1, 1] },
+  uMouthCenter: { value: [0, 0] },
+  uMouthAxis: { value: [1, 0] },
+  uMouthHalf: { value: 0.1 },
+  uJawDepth: { value: 0.2 },
+  uGap: { value: 0 },
+  uStretch: { value: 0 },
+  uEyeLeft: { value: [-0.1, 0.1] },
+  uEyeRight: { value: [0.1, 0.1] },
+  uEyeAxis: { value: [1, 0] },
+  uEyeHalf: { value: 0.05 },
+  uBlink: { value: 0 },
+  uGaze: { value: [0, 0] }
+});
+
+/** Coordinates are in plane units relative to the plane's center. */
+export const setWarpGeometry = (uniforms: WarpUniforms, geometry: WarpGeometry) => {
+  uniforms.uPlaneSize.value = [geometry.planeWidth, geometry.planeHeight];
+  uniforms.uMouthCenter.value = [geometry.mouthX, geometry.mouthY];
+  uniforms.uMouthAxis.value = [Math.cos(geometry.mouthAngle), Math.sin(geometry.mouthAngle)];
+  uniforms.uMouthHalf.value = geometry.mouthWidth / 2;
+  uniforms.uJawDepth.value = geometry.jawDepth;
+  uniforms.uEyeLeft.value = geometry.eyeLeft;
+  uniforms.uEyeRight.value = geometry.eyeRight;
+  uniforms.uEyeAxis.value = [Math.cos(geometry.eyeAngle), Math.sin(geometry.eyeAngle)];
+  uniforms.uEyeHalf.value = geometry.eyeWidth / 2;
+};
+
+/**
+ * Jaw drop scales with the mouth-to-chin distance, and a closure (PP) seals
+ * the lips even while the energy envelope is still high. Gaze moves the iris
+ * by at most a sixth of the eye width.
+ */
+export const setWarpPose = (uniforms: WarpUniforms, pose: WarpPose) => {
+  const open = pose.open * (1 - pose.closure * 0.9);
+  uniforms.uGap.value = open * uniforms.uJawDepth.value * 0.45;
+  uniforms.uStretch.value = clamp((pose.width - 0.3) * 0.5 - pose.round * 0.3, -0.3, 0.4);
+  uniforms.uBlink.value = clamp(pose.blink, 0, 1);
+  const reach = uniforms.uEyeHalf.value * 0.35;
+  uniforms.uGaze.value = [
+    clamp(pose.gazeX, -0.45, 0.45) * reach,
+    clamp(pose.gazeY, -0.45, 0.45) * reach
+  ];
+};
+
+const warpFunctions = /* glsl */ `
+uniform vec2 uPlaneSize;
+uniform vec2 uMouthCenter;
+uniform vec2 uMouthAxis;
+uniform float uMouthHalf;
+uniform float uJawDepth;
+uniform float uGap;
+uniform float uStretch;
+uniform vec2 uEyeLeft;
+uniform vec2 uEyeRight;
+uniform vec2 uEyeAxis;
+uniform float uEyeHalf;
+uniform float uBlink;
+uniform vec2 uGaze;
+
+vec2 portraitLocal(vec2 plane, vec2 center, vec2 axis) {
+  vec2 d = plane - center;
+  return vec2(dot(d, axis), dot(d, vec2(-axis.y, axis.x)));
+}
+
+vec2 portraitFromLocal(vec2 local, vec2 center, vec2 axis) {
+  return center + axis * local.x + vec2(-axis.y, axis.x) * local.y;
+}
+
+// Inside the eye the iris follows the gaze, strongest at the center. Above
+// the descending lid line the photo shows skin from just over the eye,
+// squashed down, so a blink reads as the upper lid closing.
+vec2 portraitEyeWarp(vec2 plane, vec2 center) {
+  vec2 local = portraitLocal(plane, center, uEyeAxis);
+  float height = uEyeHalf * ${EYE_ASPECT.toFixed(2)};
+  vec2 ellipse = local / vec2(uEyeHalf, height);
+  float radius = dot(ellipse, ellipse);
+  if (radius >= 1.0) return plane;
+  float lid = height * sqrt(1.0 - ellipse.x * ellipse.x) * (1.0 - 2.0 * uBlink);
+  vec2 source = local.y > lid
+    ? vec2(local.x, height * 1.25 + (local.y - lid) * 0.25)
+    : local - uGaze * (1.0 - radius);
+  return portraitFromLocal(source, center, uEyeAxis);
+}
+
+// The lower face slides down with the jaw, the upper lip lifts slightly and
+// the lips stretch sideways; all of it fades out away from the mouth.
+vec2 portraitMouthWarp(vec2 plane) {
+  vec2 local = portraitLocal(plane, uMouthCenter, uMouthAxis);
+  float side = 1.0 - smoothstep(uMouthHalf * 1.3, uMouthHalf * 2.4, abs(local.x));
+  float below = step(local.y, 0.0) * (1.0 - smoothstep(uJawDepth, uJawDepth * 1.7, -local.y));
+  float above = step(0.0, local.y) * (1.0 - smoothstep(0.0, uMouthHalf * 0.8, local.y));
+  float lips = 1.0 - smoothstep(0.0, uMouthHalf * 1.2, abs(local.y));
+  vec2 source = vec2(
+    local.x / (1.0 + uStretch * side * lips),
+    local.y + uGap * side * (below * 0.75 - above * 0.25)
+  );
+  return portraitFromLocal(source, uMouthCenter, uMouthAxis);
+}
+
+// Inverse warp: for each output pixel, where in the photo to sample from.
+vec2 portraitWarpUv(vec2 uv) {
+  vec2 plane = (uv - 0.5) * uPlaneSize;
+  plane = portraitEyeWarp(plane, uEyeLeft);
+  plane = portraitEyeWarp(plane, uEyeRight);
+  plane = portraitMouthWarp(plane);
+  return plane / uPlaneSize + 0.5;
+}
+
+// How much of the opened gap between the lips to fill with the inner mouth.
+float portraitInnerMouth(vec2 uv) {
+  if (uGap < 1e-4) return 0.0;
+  vec2 local = portraitLocal((uv - 0.5) * uPlaneSize, uMouthCenter, uMouthAxis);
+  vec2 ellipse = vec2(
+    local.x / (uMouthHalf * (0.9 + uStretch)),
+    (local.y + uGap * 0.25) / (uGap * 0.5)
+  );
+  return (1.0 - smoothstep(0.7, 1.0, length(ellipse))) * 0.92;
+}
+`;
+
+/**
+ * Patches a standard material so the photo itself deforms around the mouth,
+ * keeping the regular lighting. Pass as `onBeforeCompile`.
+ */
+export const applyPortraitWarp =
+  (uniforms: WarpUniforms) => (shader: WebGLProgramParametersWithUniforms) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.fragmentShader = shader.fragmentShader
+      .replace("#include <common>", `#include <common>\n${warpFunctions}`)
+      .replace(
+        "#include <map_fragment>",
+        /* glsl */ `
+#ifdef USE_MAP
+  vec4 sampledDiffuseColor = texture2D(map, portraitWarpUv(vMapUv));
+  sampledDiffuseColor.rgb = mix(
+    sampledDiffuseColor.rgb,
+    vec3(0.09, 0.03, 0.04),
+    portraitInnerMouth(vMapUv)
+  );
+  diffuseColor *= sampledDiffuseColor;
+#endif
+`
+      );
+  };
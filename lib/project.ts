@@ -0,0 +1,240 @@
+import { emotionPresets, type EmotionPreset } from "@/lib/emotions";
+import { defaultBackground, isStageBackground, type StageBackground } from "@/lib/background";
+import { defaultCameraPlan, isCameraPlan, type CameraPlan } from "@/lib/camera";
+import { validateEmotionPreset } from "@/lib/customEmotions";
+import { MAX_CAST, type CastMember } from "@/lib/dialogue";
+import { createId } from "@/lib/id";
+import { isFaceLandmarks, type FaceLandmarks } from "@/lib/landmarks";
+import { randomSeed } from "@/lib/math";
+import type { EmotionKeyframe } from "@/lib/motion";
+import { isRigMapping, type RigMapping } from "@/lib/rig";
+import type { VoiceEngine } from "@/lib/speech";
+import { defaultExportSettings, exportFormats, type ExportSettings } from "@/lib/videoExport";
+import { createZip, readZip } from "@/lib/zip";
+import type { VoiceMode } from "@/hooks/useLipSyncEngine";
+
+const PROJECT_VERSION = 1;
+const MANIFEST_NAME = "project.json";
+
+export type ProjectSnapshot = {
+  name: string;
+  script: string;
+  voiceMode: VoiceMode;
+  voiceEngine: VoiceEngine;
+  emotion: EmotionPreset;
+  emotionKeyframes: EmotionKeyframe[];
+  transitionTime: number;
+  autoGestures: boolean;
+  cast: CastMember[];
+  camera: CameraPlan;
+  background: StageBackground;
+  avatarId: string;
+  portraitLandmarks: FaceLandmarks | null;
+  rigMapping: RigMapping | null;
+  seed: number;
+  exportSettings: ExportSettings;
+};
+
+export type StudioProject = ProjectSnapshot & {
+  portrait: Blob | null;
+  model: File | null;
+  audio: File | null;
+  backdrop: File | null;
+};
+
+type MediaInfo = {
+  path: string;
+  type: string;
+  name: string;
+};
+
+type ProjectManifest = ProjectSnapshot & {
+  version: number;
+  savedAt: string;
+  media: {
+    portrait?: MediaInfo;
+    model?: MediaInfo;
+    audio?: MediaInfo;
+    backdrop?: MediaInfo;
+  };
+};
+
+export const projectName = (script: string) => {
+  const words = script
+    .replace(/\[[^\]]*\]|<[^>]*>|\*[^*]*\*/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  if (!words.length) return "Untitled take";
+  const name = words.slice(0, 6).join(" ");
+  return words.length > 6 ? `${name}…` : name;
+};
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40) || "avatar-project";
+
+const extensionFor = (blob: Blob, fallback: string) => {
+  if (blob instanceof File) {
+    const match = blob.name.match(/\.([a-z0-9]+)$/i);
+    if (match) return match[1].toLowerCase();
+  }
+  return blob.type.split("/")[1]?.replace(/[^a-z0-9]/gi, "") || fallback;
+};
+
+const mediaEntry = async (blob: Blob, base: string, fallbackExtension: string) => {
+  const path = `media/${base}.${extensionFor(blob, fallbackExtension)}`;
+  const info: MediaInfo = {
+    path,
+    type: blob.type,
+    name: blob instanceof File ? blob.name : path.slice("media/".length)
+  };
+  return { info, entry: { name: path, data: new Uint8Array(await blob.arrayBuffer()) } };
+};
+
+/** Packs a project as a zip: `project.json` plus the portrait, model, audio and backdrop as-is. */
+export const packProject = async (project: StudioProject) => {
+  const { portrait, model, audio, backdrop, ...snapshot } = project;
+  const manifest: ProjectManifest = {
+    ...snapshot,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    media: {}
+  };
+  const entries = [];
+  if (portrait) {
+    const { info, entry } = await mediaEntry(portrait, "portrait", "png");
+    manifest.media.portrait = info;
+    entries.push(entry);
+  }
+  if (model) {
+    const { info, entry } = await mediaEntry(model, "model", "glb");
+    manifest.media.model = info;
+    entries.push(entry);
+  }
+  if (audio) {
+    const { info, entry } = await mediaEntry(audio, "audio", "wav");
+    manifest.media.audio = info;
+    entries.push(entry);
+  }
+  if (backdrop) {
+    const { info, entry } = await mediaEntry(backdrop, "backdrop", "png");
+    manifest.media.backdrop = info;
+    entries.push(entry);
+  }
+  const json = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  return {
+    blob: createZip([{ name: MANIFEST_NAME, data: json }, ...entries]),
+    filename: `${slugify(project.name)}.avatar.zip`
+  };
+};
+
+const resolveEmotion = (value: unknown): EmotionPreset => {
+  const id = value && typeof value === "object" ? (value as { id?: unknown }).id : null;
+  return emotionPresets.find((preset) => preset.id === id) ?? validateEmotionPreset(value);
+};
+
+const readNumber = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+/**
+ * Checks a manifest (or an autosaved snapshot) and fills anything missing
+ * with studio defaults. Emotions are matched to built-ins by id and
+ * otherwise validated like imported custom presets.
+ */
+export const parseProjectSnapshot = (value: unknown): ProjectSnapshot => {
+  if (!value || typeof value !== "object") {
+    throw new Error("Project manifest is missing");
+  }
+  const record = value as Record<string, unknown>;
+  if (typeof record.version === "number" && record.version > PROJECT_VERSION) {
+    throw new Error("This project was saved by a newer version of the studio");
+  }
+  const settings = (record.exportSettings ?? {}) as Partial<ExportSettings>;
+  const keyframes = Array.isArray(record.emotionKeyframes) ? record.emotionKeyframes : [];
+  const cast = Array.isArray(record.cast) ? record.cast.slice(0, MAX_CAST) : [];
+  return {
+    name: typeof record.name === "string" ? record.name : "Untitled take",
+    script: typeof record.script === "string" ? record.script : "",
+    voiceMode:
+      record.voiceMode === "audio" || record.voiceMode === "mic" ? record.voiceMode : "text",
+    voiceEngine: record.voiceEngine === "http" ? "http" : "browser",
+    emotion: resolveEmotion(record.emotion),
+    emotionKeyframes: keyframes.map((keyframe: Record<string, unknown>) => ({
+      id: typeof keyframe.id === "string" ? keyframe.id : createId(),
+      at: Math.min(Math.max(readNumber(keyframe.at, 0), 0), 1),
+      emotion: resolveEmotion(keyframe.emotion)
+    })),
+    transitionTime: readNumber(record.transitionTime, 0.6),
+    autoGestures: record.autoGestures !== false,
+    cast: cast.map((member: Record<string, unknown>) => ({
+      id: typeof member.id === "string" ? member.id : createId(),
+      name: typeof member.name === "string" ? member.name : "",
+      avatarId: typeof member.avatarId === "string" ? member.avatarId : "",
+      emotion: resolveEmotion(member.emotion),
+      voice: typeof member.voice === "string" ? member.voice : "",
+      pitch: Math.min(Math.max(readNumber(member.pitch, 1), 0.5), 2)
+    })),
+    camera: isCameraPlan(record.camera) ? record.camera : defaultCameraPlan,
+    background: isStageBackground(record.background) ? record.background : defaultBackground,
+    avatarId: typeof record.avatarId === "string" ? record.avatarId : "",
+    portraitLandmarks: isFaceLandmarks(record.portraitLandmarks) ? record.portraitLandmarks : null,
+    rigMapping: isRigMapping(record.rigMapping) ? record.rigMapping : null,
+    seed: readNumber(record.seed, randomSeed()),
+    exportSettings: {
+      format:
+        settings.format && Object.hasOwn(exportFormats, settings.format)
+          ? settings.format
+          : defaultExportSettings.format,
+      width: readNumber(settings.width, defaultExportSettings.width),
+      height: readNumber(settings.height, defaultExportSettings.height),
+      fps: readNumber(settings.fps, defaultExportSettings.fps),
+      bitrateKbps: readNumber(settings.bitrateKbps, defaultExportSettings.bitrateKbps),
+      transparent: settings.transparent === true,
+      burnCaptions: settings.burnCaptions === true
+    }
+  };
+};
+
+export const unpackProject = async (file: Blob): Promise<StudioProject> => {
+  const entries = await readZip(file);
+  const find = (path?: string) => entries.find((entry) => entry.name === path);
+  const manifestEntry = find(MANIFEST_NAME);
+  if (!manifestEntry) {
+    throw new Error("Archive has no project.json");
+  }
+  let manifest: Partial<ProjectManifest>;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestEntry.data));
+  } catch {
+    throw new Error("project.json is not valid JSON");
+  }
+
+  const media = manifest.media ?? {};
+  const portrait = find(media.portrait?.path);
+  const model = find(media.model?.path);
+  const audio = find(media.audio?.path);
+  const backdrop = find(media.backdrop?.path);
+  return {
+    ...parseProjectSnapshot(manifest),
+    portrait: portrait
+      ? new Blob([portrait.data as BlobPart], { type: media.portrait?.type })
+      : null,
+    model:
+      model && media.model
+        ? new File([model.data as BlobPart], media.model.name, { type: media.model.type })
+        : null,
+    audio:
+      audio && media.audio
+        ? new File([audio.data as BlobPart], media.audio.name, { type: media.audio.type })
+        : null,
+    backdrop:
+      backdrop && media.backdrop
+        ? new File([backdrop.data as BlobPart], media.backdrop.name, {
+            type: media.backdrop.type
+          })
+        : null
+  };
+};
@@ -0,0 +1,103 @@
+import { parseProjectSnapshot, type ProjectSnapshot, type StudioProject } from "@/lib/project";
+
+const DB_NAME = "avatar-studio";
+const DB_VERSION = 1;
+const STORE = "projects";
+const MAX_RECENT = 12;
+
+type ProjectRecord = {
+  id: string;
+  savedAt: number;
+  snapshot: ProjectSnapshot;
+  portrait: Blob | null;
+  model?: File | null;
+  audio: File | null;
+  backdrop?: File | null;
+};
+
+export type RecentProject = {
+  id: string;
+  name: string;
+  savedAt: number;
+};
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = () => {
+        open.result.createObjectStore(STORE, { keyPath: "id" });
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => {
+        dbPromise = null;
+        reject(open.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase();
+  return request(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+/** Newest first, with just what the recent-projects list shows. */
+export const listRecentProjects = async (): Promise<RecentProject[]> => {
+  const records = await withStore(
+    "readonly",
+    (store) => store.getAll() as IDBRequest<ProjectRecord[]>
+  );
+  return records
+    .sort((a, b) => b.savedAt - a.savedAt)
+    .map((record) => ({ id: record.id, name: record.snapshot.name, savedAt: record.savedAt }));
+};
+
+export const deleteProject = (id: string) => withStore("readwrite", (store) => store.delete(id));
+
+/**
+ * Stores the project with its media as native blobs, then prunes the oldest
+ * entries beyond `MAX_RECENT` so autosave never grows without bound.
+ */
+export const saveProject = async (id: string, project: StudioProject) => {
+  const { portrait, model, audio, backdrop, ...snapshot } = project;
+  const record: ProjectRecord = {
+    id,
+    savedAt: Date.now(),
+    snapshot,
+    portrait,
+    model,
+    audio,
+    backdrop
+  };
+  await withStore("readwrite", (store) => store.put(record));
+  const recent = await listRecentProjects();
+  await Promise.all(recent.slice(MAX_RECENT).map((stale) => deleteProject(stale.id)));
+};
+
+export const loadProject = async (id: string): Promise<StudioProject | null> => {
+  const record = await withStore(
+    "readonly",
+    (store) => store.get(id) as IDBRequest<ProjectRecord | undefined>
+  );
+  if (!record) return null;
+  return {
+    ...parseProjectSnapshot(record.snapshot),
+    portrait: record.portrait,
+    model: record.model ?? null,
+    audio: record.audio,
+    backdrop: record.backdrop ?? null
+  };
+};
@@ -0,0 +1,382 @@
+import { Euler, Quaternion, type Mesh, type Object3D } from "three";
+import type { LipState } from "@/hooks/useLipSyncEngine";
+import { clamp } from "@/lib/math";
+import { getMouthShape, VISEMES, type Viseme } from "@/lib/visemes";
+
+export const RIG_MORPH_CHANNELS = [
+  "jawOpen",
+  "mouthSmileLeft",
+  "mouthSmileRight",
+  "mouthRound",
+  "mouthClose",
+  "blinkLeft",
+  "blinkRight",
+  "browUp",
+  ...VISEMES.map((viseme) => `viseme_${viseme}` as const)
+] as const;
+
+export type RigMorphChannel = (typeof RIG_MORPH_CHANNELS)[number];
+
+export const RIG_BONE_CHANNELS = [
+  "head",
+  "neck",
+  "spine",
+  "leftEye",
+  "rightEye",
+  "leftUpperArm",
+  "rightUpperArm"
+] as const;
+
+export type RigBoneChannel = (typeof RIG_BONE_CHANNELS)[number];
+
+/** Channel → name of a morph target or bone in the model; unmapped channels are skipped. */
+export type RigMapping = {
+  morphs: Partial<Record<RigMorphChannel, string>>;
+  bones: Partial<Record<RigBoneChannel, string>>;
+};
+
+/** What a loaded model offers, for auto-mapping and the mapping editor. */
+export type RigTargets = {
+  morphs: string[];
+  bones: string[];
+};
+
+export type ModelPreset = {
+  id: string;
+  label: string;
+  type: "model";
+  url: string;
+  mapping: RigMapping;
+  swatch?: string;
+  emoji?: string;
+};
+
+export const MODEL_EXTENSIONS = [".glb", ".gltf", ".vrm"];
+
+export const rigChannelLabels: Record<RigMorphChannel | RigBoneChannel, string> = {
+  jawOpen: "Jaw open",
+  mouthSmileLeft: "Smile (left)",
+  mouthSmileRight: "Smile (right)",
+  mouthRound: "Lips round",
+  mouthClose: "Lips closed",
+  blinkLeft: "Blink (left)",
+  blinkRight: "Blink (right)",
+  browUp: "Brows up",
+  ...(Object.fromEntries(
+    VISEMES.map((viseme) => [`viseme_${viseme}`, `Viseme ${viseme}`])
+  ) as Record<`viseme_${Viseme}`, string>),
+  head: "Head",
+  neck: "Neck",
+  spine: "Spine",
+  leftEye: "Left eye",
+  rightEye: "Right eye",
+  leftUpperArm: "Left upper arm",
+  rightUpperArm: "Right upper arm"
+};
+
+const vowelNames: Partial<Record<Viseme, string[]>> = {
+  aa: ["vrm:aa", "a", "fclmtha"],
+  E: ["vrm:ee", "e", "fclmthe"],
+  ih: ["vrm:ih", "i", "fclmthi"],
+  oh: ["vrm:oh", "o", "fclmtho"],
+  ou: ["vrm:ou", "u", "fclmthu"]
+};
+
+// Candidates are compared after `normalizeName`; first match wins. Covers
+// ARKit blendshapes, Oculus/Ready Player Me visemes, VRM expressions and
+// VRoid's raw morph names.
+const morphCandidates: Record<RigMorphChannel, string[]> = {
+  jawOpen: ["jawopen", "mouthopen", "vrm:aa", "a", "fclmtha"],
+  mouthSmileLeft: ["mouthsmileleft", "mouthsmilel", "vrm:happy", "fclmthjoy"],
+  mouthSmileRight: ["mouthsmileright", "mouthsmiler", "vrm:happy", "fclmthjoy"],
+  mouthRound: ["mouthfunnel", "mouthpucker", "vrm:ou", "u", "fclmthu"],
+  mouthClose: ["mouthclose", "mouthpressleft", "mouthpressl"],
+  blinkLeft: [
+    "eyeblinkleft",
+    "eyeblinkl",
+    "vrm:blinkleft",
+    "blinkl",
+    "fcleyeclosel",
+    "vrm:blink"
+  ],
+  blinkRight: [
+    "eyeblinkright",
+    "eyeblinkr",
+    "vrm:blinkright",
+    "blinkr",
+    "fcleyecloser",
+    "vrm:blink"
+  ],
+  browUp: ["browinnerup", "browup", "vrm:surprised", "fclbrwsurprised"],
+  ...(Object.fromEntries(
+    VISEMES.map((viseme) => [
+      `viseme_${viseme}`,
+      [
+        `viseme${viseme.toLowerCase()}`,
+        `v${viseme.toLowerCase()}`,
+        ...(vowelNames[viseme] ?? [])
+      ]
+    ])
+  ) as Record<`viseme_${Viseme}`, string[]>)
+};
+
+const boneCandidates: Record<RigBoneChannel, string[]> = {
+  head: ["vrm:head", "head", "jbipchead"],
+  neck: ["vrm:neck", "neck", "jbipcneck"],
+  spine: ["vrm:spine", "spine", "spine1", "jbipcspine"],
+  leftEye: ["vrm:lefteye", "lefteye", "eyel", "eyeleft", "jadjlfaceeye"],
+  rightEye: ["vrm:righteye", "righteye", "eyer", "eyeright", "jadjrfaceeye"],
+  leftUpperArm: [
+    "vrm:leftupperarm",
+    "leftupperarm",
+    "leftarm",
+    "upperarml",
+    "jbiplupperarm"
+  ],
+  rightUpperArm: [
+    "vrm:rightupperarm",
+    "rightupperarm",
+    "rightarm",
+    "upperarmr",
+    "jbiprupperarm"
+  ]
+};
+
+const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/^mixamorig:?/, "")
+    .replace(/[^a-z0-9:]/g, "");
+
+const pickTarget = (available: string[], candidates: string[]) => {
+  const byName = new Map(available.map((name) => [normalizeName(name), name]));
+  for (const candidate of candidates) {
+    const match = byName.get(candidate);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+/** Best-effort mapping from well-known naming schemes; the editor fixes the rest. */
+export const guessRigMapping = (targets: RigTargets): RigMapping => {
+  const mapping: RigMapping = { morphs: {}, bones: {} };
+  for (const channel of RIG_MORPH_CHANNELS) {
+    const name = pickTarget(targets.morphs, morphCandidates[channel]);
+    if (name) mapping.morphs[channel] = name;
+  }
+  for (const channel of RIG_BONE_CHANNELS) {
+    const name = pickTarget(targets.bones, boneCandidates[channel]);
+    if (name) mapping.bones[channel] = name;
+  }
+  return mapping;
+};
+
+export const isRigMapping = (value: unknown): value is RigMapping => {
+  if (!value || typeof value !== "object") return false;
+  const { morphs, bones } = value as Record<string, unknown>;
+  const isNameRecord = (record: unknown, keys: readonly string[]) =>
+    Boolean(record) &&
+    typeof record === "object" &&
+    Object.entries(record as Record<string, unknown>).every(
+      ([key, name]) => keys.includes(key) && typeof name === "string"
+    );
+  return isNameRecord(morphs, RIG_MORPH_CHANNELS) && isNameRecord(bones, RIG_BONE_CHANNELS);
+};
+
+type MorphBind = {
+  mesh: Mesh;
+  index: number;
+  weight: number;
+};
+
+type LoadedModel = {
+  scene: Object3D;
+  parser: {
+    json: unknown;
+    associations: Map<unknown, { meshes?: number; nodes?: number }>;
+  };
+};
+
+export type LoadedRig = {
+  targets: RigTargets;
+  morphs: Map<string, MorphBind[]>;
+  bones: Map<string, Object3D>;
+  rest: Map<Object3D, Quaternion>;
+  /** VRM 0.x models face -Z and need turning around. */
+  facesBackward: boolean;
+};
+
+type VrmBind = { mesh?: number; node?: number; index?: number; weight?: number };
+
+type VrmExtensions = {
+  VRM?: {
+    blendShapeMaster?: {
+      blendShapeGroups?: { name?: string; presetName?: string; binds?: VrmBind[] }[];
+    };
+    humanoid?: { humanBones?: { bone?: string; node?: number }[] };
+  };
+  VRMC_vrm?: {
+    expressions?: Record<string, Record<string, { morphTargetBinds?: VrmBind[] }>>;
+    humanoid?: { humanBones?: Record<string, { node?: number }> };
+  };
+};
+
+// VRM 0.x preset names, renamed to their VRM 1.0 equivalents.
+const vrm0Presets: Record<string, string> = {
+  a: "aa",
+  i: "ih",
+  u: "ou",
+  e: "ee",
+  o: "oh",
+  blink_l: "blinkLeft",
+  blink_r: "blinkRight",
+  joy: "happy",
+  sorrow: "sad",
+  fun: "relaxed"
+};
+
+/**
+ * Indexes a loaded glTF/VRM scene: every named morph target across all
+ * meshes, every bone, and — for VRM files — the expressions and humanoid
+ * bones declared in the VRM extension, exposed as `vrm:<name>`.
+ */
+export const collectRig = (model: LoadedModel): LoadedRig => {
+  const morphs = new Map<string, MorphBind[]>();
+  const bones = new Map<string, Object3D>();
+  const meshesByIndex = new Map<number, Mesh[]>();
+  const nodesByIndex = new Map<number, Object3D>();
+  const addMorph = (name: string, bind: MorphBind) => {
+    morphs.set(name, [...(morphs.get(name) ?? []), bind]);
+  };
+
+  model.scene.traverse((object) => {
+    const association = model.parser.associations.get(object);
+    if (association?.nodes !== undefined) nodesByIndex.set(association.nodes, object);
+    const mesh = object as Mesh;
+    if (mesh.isMesh) {
+      if (association?.meshes !== undefined) {
+        meshesByIndex.set(association.meshes, [
+          ...(meshesByIndex.get(association.meshes) ?? []),
+          mesh
+        ]);
+      }
+      for (const [name, index] of Object.entries(mesh.morphTargetDictionary ?? {})) {
+        addMorph(name, { mesh, index, weight: 1 });
+      }
+    }
+    if ((object as { isBone?: boolean }).isBone && object.name) {
+      bones.set(object.name, object);
+    }
+  });
+
+  const meshesUnder = (node?: Object3D) => {
+    const found: Mesh[] = [];
+    node?.traverse((object) => {
+      if ((object as Mesh).isMesh) found.push(object as Mesh);
+    });
+    return found;
+  };
+
+  const json = (model.parser.json ?? {}) as { extensions?: VrmExtensions };
+  const { VRM: vrm0, VRMC_vrm: vrm1 } = json.extensions ?? {};
+  for (const group of vrm0?.blendShapeMaster?.blendShapeGroups ?? []) {
+    const preset = group.presetName && group.presetName !== "unknown" ? group.presetName : null;
+    const name = preset ? vrm0Presets[preset] ?? preset : group.name;
+    if (!name) continue;
+    for (const bind of group.binds ?? []) {
+      for (const mesh of meshesByIndex.get(bind.mesh ?? -1) ?? []) {
+        const weight = (bind.weight ?? 100) / 100;
+        addMorph(`vrm:${name}`, { mesh, index: bind.index ?? 0, weight });
+      }
+    }
+  }
+  for (const expressions of Object.values(vrm1?.expressions ?? {})) {
+    for (const [name, expression] of Object.entries(expressions)) {
+      for (const bind of expression.morphTargetBinds ?? []) {
+        for (const mesh of meshesUnder(nodesByIndex.get(bind.node ?? -1))) {
+          addMorph(`vrm:${name}`, { mesh, index: bind.index ?? 0, weight: bind.weight ?? 1 });
+        }
+      }
+    }
+  }
+  const humanBones = [
+    ...(vrm0?.humanoid?.humanBones ?? []).map((bone) => [bone.bone, bone.node] as const),
+    ...Object.entries(vrm1?.humanoid?.humanBones ?? {}).map(
+      ([name, bone]) => [name, bone.node] as const
+    )
+  ];
+  for (const [name, node] of humanBones) {
+    const object = nodesByIndex.get(node ?? -1);
+    if (name && object) bones.set(`vrm:${name}`, object);
+  }
+
+  const rest = new Map<Object3D, Quaternion>();
+  bones.forEach((bone) => rest.set(bone, bone.quaternion.clone()));
+  return {
+    targets: { morphs: [...morphs.keys()].sort(), bones: [...bones.keys()].sort() },
+    morphs,
+    bones,
+    rest,
+    facesBackward: Boolean(vrm0)
+  };
+};
+
+const morphValues = (lipState: LipState): Record<RigMorphChannel, number> => {
+  const shape = getMouthShape(lipState.visemes);
+  const smile = clamp((lipState.mouthWidth - 0.3) * 1.4, 0, 1);
+  return {
+    jawOpen: lipState.mouthOpen * (1 - shape.closure * 0.85),
+    mouthSmileLeft: smile,
+    mouthSmileRight: smile,
+    mouthRound: shape.round,
+    mouthClose: shape.closure,
+    blinkLeft: lipState.blink,
+    blinkRight: lipState.blink,
+    browUp: clamp(lipState.eyebrowLift, 0, 1),
+    ...(Object.fromEntries(
+      VISEMES.map((viseme) => [`viseme_${viseme}`, lipState.visemes[viseme]])
+    ) as Record<`viseme_${Viseme}`, number>)
+  };
+};
+
+const euler = new Euler();
+const offset = new Quaternion();
+
+/**
+ * Poses the model for one frame. Morph targets shared by several channels
+ * add up (capped at 1); bone rotations are applied on top of the rest pose
+ * in each bone's local space.
+ */
+export const applyRig = (rig: LoadedRig, mapping: RigMapping, lipState: LipState) => {
+  const values = morphValues(lipState);
+  const bound = RIG_MORPH_CHANNELS.flatMap((channel) => {
+    const name = mapping.morphs[channel];
+    return name ? (rig.morphs.get(name) ?? []).map((bind) => ({ bind, channel })) : [];
+  });
+  for (const { bind } of bound) {
+    if (bind.mesh.morphTargetInfluences) bind.mesh.morphTargetInfluences[bind.index] = 0;
+  }
+  for (const { bind, channel } of bound) {
+    const influences = bind.mesh.morphTargetInfluences;
+    if (!influences) continue;
+    influences[bind.index] = clamp(influences[bind.index] + values[channel] * bind.weight, 0, 1);
+  }
+
+  const pose = (channel: RigBoneChannel, x: number, y: number, z: number) => {
+    const name = mapping.bones[channel];
+    const bone = name ? rig.bones.get(name) : undefined;
+    const rest = bone && rig.rest.get(bone);
+    if (!bone || !rest) return;
+    offset.setFromEuler(euler.set(x, y, z));
+    bone.quaternion.copy(rest).multiply(offset);
+  };
+  const gazeX = clamp(lipState.gazeX, -0.45, 0.45) * 0.35;
+  const gazeY = clamp(lipState.gazeY, -0.45, 0.45) * 0.25;
+  pose("head", -lipState.headPitch * 0.4, lipState.headYaw * 0.4, lipState.headRoll * 0.3);
+  pose("neck", -lipState.headPitch * 0.1, lipState.headYaw * 0.1, 0);
+  pose("spine", 0, 0, lipState.bodySway * 0.04);
+  pose("leftEye", -gazeY, gazeX, 0);
+  pose("rightEye", -gazeY, gazeX, 0);
+  pose("leftUpperArm", 0, 0, lipState.handLeft * 0.5);
+  pose("rightUpperArm", 0, 0, -lipState.handRight * 0.5);
+};
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { EmotionPreset } from "@/lib/emotions";
+import { parseScript, sourcePosition, splitSpeechChunks } from "@/lib/scriptMarkup";
+
+const excited: EmotionPreset = {
+  id: "excited",
+  label: "Excited",
+  description: "",
+  color: "#ff7ad9",
+  mouthEnergy: 0.8,
+  handAmplitude: 0.7,
+  gazeIntensity: 0.6,
+  browLift: 0.5
+};
+
+describe("parseScript", () => {
+  it("strips markup from the spoken text and places cues in it", () => {
+    const parsed = parseScript("Hi [Excited]there *wave* <pause 1.5s>friend", [excited]);
+    assert.equal(parsed.text, "Hi there  friend");
+    assert.deepEqual(parsed.cues, [
+      { type: "emotion", charIndex: 3, emotion: excited },
+      { type: "gesture", charIndex: 9, gesture: "wave" },
+      { type: "pause", charIndex: 10, duration: 1.5 }
+    ]);
+    assert.equal(parsed.errors.length, 0);
+  });
+
+  it("reads pause lengths in ms, seconds or the default, capped at ten seconds", () => {
+    const pauses = parseScript("<pause 600ms><pause><pause 30s>", []).cues.map((cue) =>
+      cue.type === "pause" ? cue.duration : null
+    );
+    assert.deepEqual(pauses, [0.6, 0.5, 10]);
+  });
+
+  it("reports malformed markup as errors and never speaks it", () => {
+    const parsed = parseScript("[sleepy] hi *dance* <pause soon> [open", []);
+    assert.equal(parsed.text, " hi   open");
+    assert.deepEqual(
+      parsed.errors.map((error) => error.message),
+      [
+        'Unknown emotion "sleepy"',
+        "Unknown gesture *dance*",
+        "Pause length must look like 600ms or 1.5s",
+        'Missing closing "]"'
+      ]
+    );
+  });
+});
+
+describe("splitSpeechChunks", () => {
+  it("cuts at pauses and merges back-to-back ones", () => {
+    const parsed = parseScript("One.<pause 200ms><pause 300ms> Two.<pause 1s>", []);
+    assert.deepEqual(splitSpeechChunks(parsed), [
+      { start: 0, end: 4, pauseAfter: 0.5 },
+      { start: 4, end: 9, pauseAfter: 1 },
+      { start: 9, end: 9, pauseAfter: 0 }
+    ]);
+  });
+});
+
+describe("sourcePosition", () => {
+  it("gives one-based lines and columns", () => {
+    const source = "Hello.\n[oops] again";
+    assert.deepEqual(sourcePosition(source, 0), { line: 1, column: 1 });
+    assert.deepEqual(sourcePosition(source, 7), { line: 2, column: 1 });
+    assert.deepEqual(sourcePosition(source, 12), { line: 2, column: 6 });
+  });
+});
@@ -0,0 +1,177 @@
+import type { EmotionPreset } from "@/lib/emotions";
+
+export const SCRIPT_GESTURES = [
+  "nod",
+  "shake",
+  "wave",
+  "shrug",
+  "point",
+  "count",
+  "palms"
+] as const;
+
+export type ScriptGesture = (typeof SCRIPT_GESTURES)[number];
+
+export type ScriptCue =
+  | { type: "emotion"; charIndex: number; emotion: EmotionPreset }
+  | { type: "pause"; charIndex: number; duration: number }
+  | { type: "gesture"; charIndex: number; gesture: ScriptGesture };
+
+export type ScriptSpan = {
+  start: number;
+  end: number;
+  kind: "markup" | "error";
+  message?: string;
+};
+
+export type ParsedScript = {
+  source: string;
+  text: string;
+  cues: ScriptCue[];
+  spans: ScriptSpan[];
+  errors: ScriptSpan[];
+};
+
+export type SpeechChunk = {
+  start: number;
+  end: number;
+  pauseAfter: number;
+};
+
+const DEFAULT_PAUSE_MS = 500;
+const MAX_PAUSE_MS = 10_000;
+
+const findClosing = (source: string, from: number, closing: string, opening: string) => {
+  for (let i = from; i < source.length; i += 1) {
+    const char = source[i];
+    if (char === closing) return i;
+    if (char === "\n" || char === opening) return -1;
+  }
+  return -1;
+};
+
+const parsePause = (body: string) => {
+  const match = body.match(/^pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s)?)?$/i);
+  if (!match) return null;
+  if (!match[1]) return DEFAULT_PAUSE_MS / 1000;
+  const value = Number(match[1]);
+  const milliseconds = match[2]?.toLowerCase() === "s" ? value * 1000 : value;
+  return Math.min(milliseconds, MAX_PAUSE_MS) / 1000;
+};
+
+/**
+ * Splits a performance script into the text that gets spoken and the cues
+ * that drive everything else:
+ *
+ * - `[excited]` switches to the emotion with that id or label
+ * - `<pause 600ms>` / `<pause 1.5s>` / `<pause>` inserts silence
+ * - `*nod*`, `*wave*`… trigger a gesture
+ *
+ * Cue positions are character offsets into the stripped text. Malformed
+ * markup is reported as an error span over the source and never spoken.
+ */
+export const parseScript = (source: string, emotions: EmotionPreset[]): ParsedScript => {
+  const cues: ScriptCue[] = [];
+  const spans: ScriptSpan[] = [];
+  let text = "";
+  let index = 0;
+
+  const findEmotion = (name: string) =>
+    emotions.find(
+      (preset) =>
+        preset.id.toLowerCase() === name.toLowerCase() ||
+        preset.label.toLowerCase() === name.toLowerCase()
+    );
+
+  while (index < source.length) {
+    const char = source[index];
+    const closing = char === "[" ? "]" : char === "<" ? ">" : char === "*" ? "*" : null;
+    if (!closing) {
+      text += char;
+      index += 1;
+      continue;
+    }
+
+    const end = findClosing(source, index + 1, closing, char === "*" ? "" : char);
+    if (end < 0) {
+      spans.push({
+        start: index,
+        end: index + 1,
+        kind: "error",
+        message: `Missing closing "${closing}"`
+      });
+      index += 1;
+      continue;
+    }
+
+    const body = source.slice(index + 1, end).trim();
+    const span = { start: index, end: end + 1 };
+    index = end + 1;
+
+    if (char === "[") {
+      const emotion = findEmotion(body);
+      if (emotion) {
+        cues.push({ type: "emotion", charIndex: text.length, emotion });
+        spans.push({ ...span, kind: "markup" });
+      } else {
+        spans.push({ ...span, kind: "error", message: `Unknown emotion "${body}"` });
+      }
+    } else if (char === "<") {
+      const duration = parsePause(body);
+      if (duration !== null) {
+        cues.push({ type: "pause", charIndex: text.length, duration });
+        spans.push({ ...span, kind: "markup" });
+      } else {
+        spans.push({
+          ...span,
+          kind: "error",
+          message: /^pause/i.test(body) ? "Pause length must look like 600ms or 1.5s" : `Unknown tag <${body}>`
+        });
+      }
+    } else {
+      const gesture = SCRIPT_GESTURES.find((name) => name === body.toLowerCase());
+      if (gesture) {
+        cues.push({ type: "gesture", charIndex: text.length, gesture });
+        spans.push({ ...span, kind: "markup" });
+      } else {
+        spans.push({ ...span, kind: "error", message: `Unknown gesture *${body}*` });
+      }
+    }
+  }
+
+  return {
+    source,
+    text,
+    cues,
+    spans,
+    errors: spans.filter((span) => span.kind === "error")
+  };
+};
+
+/** One-based line and column of a character offset into the script source. */
+export const sourcePosition = (source: string, offset: number) => {
+  const before = source.slice(0, offset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return { line: before.split("\n").length, column: offset - lineStart + 1 };
+};
+
+/**
+ * Cuts the spoken text at every pause so each piece can be voiced separately
+ * with real silence in between.
+ */
+export const splitSpeechChunks = (script: ParsedScript): SpeechChunk[] => {
+  const chunks: SpeechChunk[] = [];
+  let start = 0;
+  for (const cue of script.cues) {
+    if (cue.type !== "pause") continue;
+    const previous = chunks[chunks.length - 1];
+    if (previous && previous.end === cue.charIndex && cue.charIndex === start) {
+      previous.pauseAfter += cue.duration;
+      continue;
+    }
+    chunks.push({ start, end: cue.charIndex, pauseAfter: cue.duration });
+    start = cue.charIndex;
+  }
+  chunks.push({ start, end: script.text.length, pauseAfter: 0 });
+  return chunks;
+};
@@ -0,0 +1,135 @@
+export type SpeechProsody = {
+  pitch: number;
+  rate: number;
+  volume: number;
+  /** A voice name for the browser, or a voice id the TTS server knows. */
+  voice?: string;
+};
+
+export type VoiceEngine = "browser" | "http";
+
+export type SpeechBackend = {
+  id: string;
+  label: string;
+  synthesize: (text: string, prosody: SpeechProsody) => Promise<Blob>;
+};
+
+export const DEFAULT_TTS_ENDPOINT =
+  process.env.NEXT_PUBLIC_TTS_ENDPOINT ?? "http://localhost:5002/api/tts";
+
+/**
+ * Talks to a local TTS server over plain HTTP: `GET <endpoint>?text=…` must
+ * answer with an audio file (WAV, MP3 or OGG). Prosody is passed along as
+ * extra query parameters, which servers are free to ignore.
+ */
+export const createHttpSpeechBackend = (endpoint = DEFAULT_TTS_ENDPOINT): SpeechBackend => ({
+  id: "http",
+  label: "Local TTS server",
+  synthesize: async (text, prosody) => {
+    const url = new URL(endpoint);
+    url.searchParams.set("text", text);
+    url.searchParams.set("rate", prosody.rate.toFixed(2));
+    url.searchParams.set("pitch", prosody.pitch.toFixed(2));
+    url.searchParams.set("volume", prosody.volume.toFixed(2));
+    if (prosody.voice) {
+      url.searchParams.set("voice", prosody.voice);
+    }
+    const response = await fetch(url, { headers: { Accept: "audio/*" } });
+    if (!response.ok) {
+      throw new Error(`TTS server responded with ${response.status}`);
+    }
+    const audio = await response.blob();
+    if (!audio.size) {
+      throw new Error("TTS server returned no audio");
+    }
+    return audio;
+  }
+});
+
+export type SpeechClip = {
+  blob: Blob;
+  silenceBefore: number;
+};
+
+/** The joined audio, and where each clip's speech starts and ends in it, in seconds. */
+export type JoinedSpeech = {
+  blob: Blob;
+  spans: { start: number; end: number }[];
+};
+
+const JOIN_SAMPLE_RATE = 44_100;
+
+const encodeWav = (samples: Float32Array, sampleRate: number) => {
+  const data = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i += 1) {
+      data.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+  writeString(0, "RIFF");
+  data.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  data.setUint32(16, 16, true);
+  data.setUint16(20, 1, true);
+  data.setUint16(22, 1, true);
+  data.setUint32(24, sampleRate, true);
+  data.setUint32(28, sampleRate * 2, true);
+  data.setUint16(32, 2, true);
+  data.setUint16(34, 16, true);
+  writeString(36, "data");
+  data.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, index) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    data.setInt16(44 + index * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return new Blob([data.buffer], { type: "audio/wav" });
+};
+
+/**
+ * Stitches separately synthesized clips into one mono WAV, inserting the
+ * requested silence before each clip and `silenceAfter` behind the last one.
+ * Servers only ever see plain sentences, so pauses from script markup work
+ * with any backend.
+ */
+export const joinSpeechClips = async (
+  clips: SpeechClip[],
+  silenceAfter = 0
+): Promise<JoinedSpeech> => {
+  if (!clips.length) {
+    throw new Error("There is no speech to join");
+  }
+  const decoder = new OfflineAudioContext(1, 1, JOIN_SAMPLE_RATE);
+  const segments: Float32Array[] = [];
+  const spans: JoinedSpeech["spans"] = [];
+  let length = 0;
+  for (const clip of clips) {
+    const buffer = await decoder.decodeAudioData(await clip.blob.arrayBuffer());
+    const mono = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < mono.length; i += 1) {
+        mono[i] += data[i] / buffer.numberOfChannels;
+      }
+    }
+    const silence = new Float32Array(Math.round(clip.silenceBefore * JOIN_SAMPLE_RATE));
+    segments.push(silence, mono);
+    length += silence.length;
+    spans.push({
+      start: length / JOIN_SAMPLE_RATE,
+      end: (length + mono.length) / JOIN_SAMPLE_RATE
+    });
+    length += mono.length;
+  }
+  if (clips.length === 1 && clips[0].silenceBefore === 0 && silenceAfter === 0) {
+    return { blob: clips[0].blob, spans };
+  }
+  segments.push(new Float32Array(Math.round(silenceAfter * JOIN_SAMPLE_RATE)));
+  const samples = new Float32Array(segments.reduce((sum, segment) => sum + segment.length, 0));
+  let offset = 0;
+  for (const segment of segments) {
+    samples.set(segment, offset);
+    offset += segment.length;
+  }
+  return { blob: encodeWav(samples, JOIN_SAMPLE_RATE), spans };
+};
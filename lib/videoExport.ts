@@ -0,0 +1,235 @@
+import { createZip } from "@/lib/zip";
+
+const FFMPEG_CORE_PATH = "/ffmpeg-core/ffmpeg-core.js";
+
+export type ExportFormat = "webm" | "mp4" | "gif" | "png";
+
+export type ExportSettings = {
+  format: ExportFormat;
+  width: number;
+  height: number;
+  fps: number;
+  bitrateKbps: number;
+  /** Leave the background out; only formats that carry alpha honor it. */
+  transparent: boolean;
+  /** Draw the take's captions into the frames, karaoke style. */
+  burnCaptions: boolean;
+};
+
+export type ExportFile = {
+  blob: Blob;
+  filename: string;
+};
+
+type ExportFormatInfo = {
+  label: string;
+  extension: string;
+  mimeType: string;
+  supportsAudio: boolean;
+  supportsBitrate: boolean;
+  supportsAlpha: boolean;
+};
+
+export const exportFormats: Record<ExportFormat, ExportFormatInfo> = {
+  webm: {
+    label: "WebM (VP9)",
+    extension: "webm",
+    mimeType: "video/webm",
+    supportsAudio: true,
+    supportsBitrate: true,
+    supportsAlpha: true
+  },
+  mp4: {
+    label: "MP4 (H.264)",
+    extension: "mp4",
+    mimeType: "video/mp4",
+    supportsAudio: true,
+    supportsBitrate: true,
+    supportsAlpha: false
+  },
+  gif: {
+    label: "Animated GIF",
+    extension: "gif",
+    mimeType: "image/gif",
+    supportsAudio: false,
+    supportsBitrate: false,
+    supportsAlpha: false
+  },
+  png: {
+    label: "PNG sequence (zip)",
+    extension: "zip",
+    mimeType: "application/zip",
+    supportsAudio: false,
+    supportsBitrate: false,
+    supportsAlpha: true
+  }
+};
+
+export const defaultExportSettings: ExportSettings = {
+  format: "mp4",
+  width: 1280,
+  height: 720,
+  fps: 30,
+  bitrateKbps: 6000,
+  transparent: false,
+  burnCaptions: false
+};
+
+type FFmpegInstance = {
+  isLoaded: () => boolean;
+  load: () => Promise<void>;
+  run: (...args: string[]) => Promise<void>;
+  FS: {
+    (method: "writeFile", path: string, data: Uint8Array): void;
+    (method: "readFile", path: string): Uint8Array;
+    (method: "unlink", path: string): void;
+  };
+};
+
+export type FrameEncoder = {
+  frameType: "image/png" | "image/jpeg";
+  addFrame: (frame: Blob) => Promise<void>;
+  finish: (audio?: Blob | null) => Promise<ExportFile>;
+};
+
+const frameName = (index: number, extension: string) =>
+  `frame_${String(index).padStart(6, "0")}.${extension}`;
+
+export const captureCanvasFrame = (canvas: HTMLCanvasElement, type: FrameEncoder["frameType"]) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Canvas frame capture failed"))),
+      type,
+      0.95
+    );
+  });
+
+const loadFFmpeg = async () => {
+  const { createFFmpeg } = (await import("@ffmpeg/ffmpeg")) as {
+    createFFmpeg: (options: { log: boolean; corePath: string }) => FFmpegInstance;
+  };
+  if (!window.crossOriginIsolated) {
+    throw new Error("Video export needs a cross-origin isolated page for ffmpeg.wasm");
+  }
+  const ffmpeg = createFFmpeg({ log: false, corePath: FFMPEG_CORE_PATH });
+  if (!ffmpeg.isLoaded()) {
+    try {
+      await ffmpeg.load();
+    } catch (error) {
+      throw new Error(`Could not load the ffmpeg.wasm core from ${FFMPEG_CORE_PATH}`, {
+        cause: error
+      });
+    }
+  }
+  return ffmpeg;
+};
+
+const codecArgs = (settings: ExportSettings, hasAudio: boolean, alpha: boolean): string[] => {
+  const evenSize = "scale=trunc(iw/2)*2:trunc(ih/2)*2";
+  const bitrate = `${settings.bitrateKbps}k`;
+  switch (settings.format) {
+    case "webm":
+      return [
+        "-vf",
+        evenSize,
+        "-c:v",
+        "libvpx-vp9",
+        "-b:v",
+        bitrate,
+        // VP9 only keeps an alpha plane in yuva420p, and alt-ref frames would drop it.
+        ...(alpha ? ["-pix_fmt", "yuva420p", "-auto-alt-ref", "0"] : []),
+        ...(hasAudio ? ["-c:a", "libopus"] : []),
+        "output.webm"
+      ];
+    case "gif":
+      return [
+        "-vf",
+        "split[a][b];[a]palettegen=stats_mode=diff[p];[b][p]paletteuse=dither=bayer",
+        "-loop",
+        "0",
+        "output.gif"
+      ];
+    default:
+      return [
+        "-vf",
+        evenSize,
+        "-c:v",
+        "libx264",
+        "-preset",
+        "veryfast",
+        "-b:v",
+        bitrate,
+        "-pix_fmt",
+        "yuv420p",
+        ...(hasAudio ? ["-c:a", "aac"] : []),
+        "output.mp4"
+      ];
+  }
+};
+
+const createSequenceEncoder = (): FrameEncoder => {
+  const frames: Uint8Array[] = [];
+  return {
+    frameType: "image/png",
+    addFrame: async (frame) => {
+      frames.push(new Uint8Array(await frame.arrayBuffer()));
+    },
+    finish: async () => ({
+      blob: createZip(
+        frames.map((data, index) => ({ name: frameName(index + 1, "png"), data }))
+      ),
+      filename: `avatar-session.${exportFormats.png.extension}`
+    })
+  };
+};
+
+/**
+ * Collects rendered frames into the ffmpeg filesystem as they arrive and
+ * encodes them at a fixed frame rate, so the output length is exactly
+ * `frames / fps` regardless of how long each frame took to render. Frames
+ * are JPEGs unless a transparent export needs PNG's alpha channel.
+ */
+export const createFrameEncoder = async (settings: ExportSettings): Promise<FrameEncoder> => {
+  if (settings.format === "png") {
+    return createSequenceEncoder();
+  }
+
+  const ffmpeg = await loadFFmpeg();
+  const format = exportFormats[settings.format];
+  const alpha = settings.transparent && format.supportsAlpha;
+  const frameExtension = alpha ? "png" : "jpg";
+  const written: string[] = [];
+
+  const addFrame = async (frame: Blob) => {
+    const name = frameName(written.length + 1, frameExtension);
+    ffmpeg.FS("writeFile", name, new Uint8Array(await frame.arrayBuffer()));
+    written.push(name);
+  };
+
+  const finish = async (audio?: Blob | null) => {
+    const withAudio = Boolean(audio) && format.supportsAudio;
+    const args = ["-framerate", String(settings.fps), "-i", `frame_%06d.${frameExtension}`];
+    if (audio && withAudio) {
+      ffmpeg.FS("writeFile", "audio.input", new Uint8Array(await audio.arrayBuffer()));
+      written.push("audio.input");
+      args.push("-i", "audio.input", "-shortest");
+    }
+    const output = `output.${format.extension}`;
+    args.push(...codecArgs(settings, withAudio, alpha));
+    try {
+      await ffmpeg.run(...args);
+      const data = ffmpeg.FS("readFile", output);
+      ffmpeg.FS("unlink", output);
+      return {
+        blob: new Blob([data as Uint8Array<ArrayBuffer>], { type: format.mimeType }),
+        filename: `avatar-session.${format.extension}`
+      };
+    } finally {
+      for (const name of written) {
+        ffmpeg.FS("unlink", name);
+      }
+    }
+  };
+
+  return { frameType: alpha ? "image/png" : "image/jpeg", addFrame, finish };
+};
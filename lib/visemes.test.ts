@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  createVisemeWeights,
+  getMouthShape,
+  mixVisemeWeights,
+  normalizeVisemeWeights,
+  phonemeToViseme,
+  textToPhonemes,
+  VISEMES
+} from "@/lib/visemes";
+
+const total = (weights: Record<string, number>) =>
+  Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+
+describe("textToPhonemes", () => {
+  it("prefers digraphs over single letters", () => {
+    assert.deepEqual(textToPhonemes("ship"), ["SH", "IH", "P"]);
+    assert.deepEqual(textToPhonemes("night"), ["N", "AY", "T"]);
+  });
+
+  it("drops a silent final e and collapses doubled consonants", () => {
+    assert.deepEqual(textToPhonemes("make"), ["M", "AE", "K"]);
+    assert.deepEqual(textToPhonemes("letter"), ["L", "EH", "T", "ER"]);
+  });
+
+  it("reads a trailing y as a vowel and a leading one as a glide", () => {
+    assert.deepEqual(textToPhonemes("happy"), ["HH", "AE", "P", "IY"]);
+    assert.deepEqual(textToPhonemes("yes"), ["Y", "EH", "S"]);
+  });
+
+  it("spells out digits and ignores punctuation", () => {
+    assert.deepEqual(textToPhonemes("4!"), textToPhonemes("four"));
+    assert.deepEqual(textToPhonemes("?!"), []);
+  });
+
+  it("only produces phonemes that map to a viseme", () => {
+    for (const phoneme of textToPhonemes("the quick brown fox jumps over the lazy dog")) {
+      assert.ok(VISEMES.includes(phonemeToViseme[phoneme]), phoneme);
+    }
+  });
+});
+
+describe("viseme weights", () => {
+  it("gives the rest of the weight to silence", () => {
+    const weights = createVisemeWeights("aa", 0.75);
+    assert.equal(weights.aa, 0.75);
+    assert.equal(weights.sil, 0.25);
+    assert.equal(total(weights), 1);
+  });
+
+  it("normalizes to a total of one and falls back to silence when empty", () => {
+    const weights = { ...createVisemeWeights("PP", 0), PP: 2, aa: 2, sil: 0 };
+    const normalized = normalizeVisemeWeights(weights);
+    assert.equal(normalized.PP, 0.5);
+    assert.equal(normalized.aa, 0.5);
+    assert.deepEqual(normalizeVisemeWeights({ ...weights, PP: 0, aa: 0 }), createVisemeWeights());
+  });
+
+  it("mixes linearly between two sets", () => {
+    const mixed = mixVisemeWeights(createVisemeWeights("aa"), createVisemeWeights("ou"), 0.25);
+    assert.equal(mixed.aa, 0.75);
+    assert.equal(mixed.ou, 0.25);
+  });
+
+  it("seals the lips for bilabials and keeps them shut at rest", () => {
+    assert.equal(getMouthShape(createVisemeWeights("PP")).closure, 1);
+    const rest = getMouthShape(createVisemeWeights());
+    const open = getMouthShape(createVisemeWeights("aa"));
+    assert.ok(open.open > rest.open);
+    assert.equal(rest.closure, 0);
+  });
+});
@@ -0,0 +1,319 @@
+export const VISEMES = [
+  "sil",
+  "PP",
+  "FF",
+  "TH",
+  "DD",
+  "kk",
+  "CH",
+  "SS",
+  "nn",
+  "RR",
+  "aa",
+  "E",
+  "ih",
+  "oh",
+  "ou"
+] as const;
+
+export type Viseme = (typeof VISEMES)[number];
+
+export type VisemeWeights = Record<Viseme, number>;
+
+export type VisemeFrame = {
+  time: number;
+  mouth: number;
+  width: number;
+  visemes: VisemeWeights;
+};
+
+export type Phoneme =
+  | "AA"
+  | "AE"
+  | "AH"
+  | "AO"
+  | "AW"
+  | "AY"
+  | "EH"
+  | "ER"
+  | "EY"
+  | "IH"
+  | "IY"
+  | "OW"
+  | "OY"
+  | "UH"
+  | "UW"
+  | "B"
+  | "CH"
+  | "D"
+  | "DH"
+  | "F"
+  | "G"
+  | "HH"
+  | "JH"
+  | "K"
+  | "L"
+  | "M"
+  | "N"
+  | "NG"
+  | "P"
+  | "R"
+  | "S"
+  | "SH"
+  | "T"
+  | "TH"
+  | "V"
+  | "W"
+  | "Y"
+  | "Z"
+  | "ZH";
+
+type VisemeShape = {
+  open: number;
+  width: number;
+  round: number;
+};
+
+export const visemeShapes: Record<Viseme, VisemeShape> = {
+  sil: { open: 0.04, width: 0.3, round: 0 },
+  PP: { open: 0, width: 0.35, round: 0 },
+  FF: { open: 0.12, width: 0.45, round: 0 },
+  TH: { open: 0.2, width: 0.45, round: 0 },
+  DD: { open: 0.3, width: 0.45, round: 0 },
+  kk: { open: 0.35, width: 0.4, round: 0 },
+  CH: { open: 0.25, width: 0.3, round: 0.5 },
+  SS: { open: 0.15, width: 0.6, round: 0 },
+  nn: { open: 0.25, width: 0.45, round: 0 },
+  RR: { open: 0.3, width: 0.3, round: 0.4 },
+  aa: { open: 0.9, width: 0.55, round: 0 },
+  E: { open: 0.55, width: 0.8, round: 0 },
+  ih: { open: 0.4, width: 0.85, round: 0 },
+  oh: { open: 0.7, width: 0.3, round: 0.7 },
+  ou: { open: 0.35, width: 0.15, round: 1 }
+};
+
+export const phonemeToViseme: Record<Phoneme, Viseme> = {
+  AA: "aa",
+  AE: "aa",
+  AH: "aa",
+  AO: "oh",
+  AW: "aa",
+  AY: "aa",
+  EH: "E",
+  ER: "RR",
+  EY: "E",
+  IH: "ih",
+  IY: "ih",
+  OW: "oh",
+  OY: "oh",
+  UH: "ou",
+  UW: "ou",
+  B: "PP",
+  CH: "CH",
+  D: "DD",
+  DH: "TH",
+  F: "FF",
+  G: "kk",
+  HH: "kk",
+  JH: "CH",
+  K: "kk",
+  L: "nn",
+  M: "PP",
+  N: "nn",
+  NG: "nn",
+  P: "PP",
+  R: "RR",
+  S: "SS",
+  SH: "CH",
+  T: "DD",
+  TH: "TH",
+  V: "FF",
+  W: "ou",
+  Y: "ih",
+  Z: "SS",
+  ZH: "CH"
+};
+
+const VOWELS = new Set<Phoneme>([
+  "AA",
+  "AE",
+  "AH",
+  "AO",
+  "AW",
+  "AY",
+  "EH",
+  "ER",
+  "EY",
+  "IH",
+  "IY",
+  "OW",
+  "OY",
+  "UH",
+  "UW"
+]);
+
+export const isVowel = (phoneme: Phoneme) => VOWELS.has(phoneme);
+
+// Ordered longest-first so digraphs win over single letters.
+const graphemeRules: [string, Phoneme[]][] = [
+  ["tion", ["SH", "AH", "N"]],
+  ["sion", ["ZH", "AH", "N"]],
+  ["ough", ["AO"]],
+  ["augh", ["AO"]],
+  ["igh", ["AY"]],
+  ["tch", ["CH"]],
+  ["dge", ["JH"]],
+  ["ng", ["NG"]],
+  ["th", ["TH"]],
+  ["sh", ["SH"]],
+  ["ch", ["CH"]],
+  ["ph", ["F"]],
+  ["wh", ["W"]],
+  ["ck", ["K"]],
+  ["qu", ["K", "W"]],
+  ["kn", ["N"]],
+  ["wr", ["R"]],
+  ["ee", ["IY"]],
+  ["ea", ["IY"]],
+  ["ie", ["IY"]],
+  ["oo", ["UW"]],
+  ["ou", ["AW"]],
+  ["ow", ["OW"]],
+  ["oa", ["OW"]],
+  ["oi", ["OY"]],
+  ["oy", ["OY"]],
+  ["ai", ["EY"]],
+  ["ay", ["EY"]],
+  ["ey", ["EY"]],
+  ["au", ["AO"]],
+  ["aw", ["AO"]],
+  ["er", ["ER"]],
+  ["ir", ["ER"]],
+  ["ur", ["ER"]],
+  ["ar", ["AA", "R"]],
+  ["or", ["AO", "R"]],
+  ["a", ["AE"]],
+  ["b", ["B"]],
+  ["c", ["K"]],
+  ["d", ["D"]],
+  ["e", ["EH"]],
+  ["f", ["F"]],
+  ["g", ["G"]],
+  ["h", ["HH"]],
+  ["i", ["IH"]],
+  ["j", ["JH"]],
+  ["k", ["K"]],
+  ["l", ["L"]],
+  ["m", ["M"]],
+  ["n", ["N"]],
+  ["o", ["AA"]],
+  ["p", ["P"]],
+  ["q", ["K"]],
+  ["r", ["R"]],
+  ["s", ["S"]],
+  ["t", ["T"]],
+  ["u", ["AH"]],
+  ["v", ["V"]],
+  ["w", ["W"]],
+  ["x", ["K", "S"]],
+  ["y", ["Y"]],
+  ["z", ["Z"]]
+];
+
+const digitWords = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine"
+];
+
+/**
+ * Rule-based grapheme-to-phoneme conversion. It is not a dictionary lookup,
+ * but it is close enough for English mouth shapes to land on the right class.
+ */
+export const textToPhonemes = (word: string): Phoneme[] => {
+  let letters = word
+    .toLowerCase()
+    .replace(/\d/g, (digit) => digitWords[Number(digit)])
+    .replace(/[^a-z]/g, "")
+    .replace(/([b-df-hj-np-tv-z])\1/g, "$1");
+  if (!letters) return [];
+  if (letters.length > 3 && letters.endsWith("e") && !/[aeiou]e$/.test(letters)) {
+    letters = letters.slice(0, -1);
+  }
+
+  const phonemes: Phoneme[] = [];
+  let index = 0;
+  while (index < letters.length) {
+    const rule = graphemeRules.find(([graphemes]) => letters.startsWith(graphemes, index));
+    if (!rule) {
+      index += 1;
+      continue;
+    }
+    const [graphemes, output] = rule;
+    // A trailing "y" reads as a vowel ("happy"), a leading one as a glide ("yes").
+    if (graphemes === "y" && index > 0) {
+      phonemes.push("IY");
+    } else {
+      phonemes.push(...output);
+    }
+    index += graphemes.length;
+  }
+  return phonemes;
+};
+
+export const createVisemeWeights = (active: Viseme = "sil", weight = 1): VisemeWeights => {
+  const weights = Object.fromEntries(VISEMES.map((viseme) => [viseme, 0])) as VisemeWeights;
+  weights[active] = weight;
+  if (active !== "sil") {
+    weights.sil = Math.max(0, 1 - weight);
+  }
+  return weights;
+};
+
+export const normalizeVisemeWeights = (weights: VisemeWeights): VisemeWeights => {
+  const total = VISEMES.reduce((sum, viseme) => sum + weights[viseme], 0);
+  if (total <= 0) return createVisemeWeights();
+  const normalized = { ...weights };
+  for (const viseme of VISEMES) {
+    normalized[viseme] = weights[viseme] / total;
+  }
+  return normalized;
+};
+
+export const mixVisemeWeights = (
+  from: VisemeWeights,
+  to: VisemeWeights,
+  amount: number
+): VisemeWeights => {
+  const mixed = { ...from };
+  for (const viseme of VISEMES) {
+    mixed[viseme] = from[viseme] + (to[viseme] - from[viseme]) * amount;
+  }
+  return mixed;
+};
+
+/**
+ * Collapses viseme weights into the three mouth controls the avatars render:
+ * how open the jaw is, how wide the lips stretch, and how much they round.
+ * `closure` is the share of bilabial (P/B/M) shape, which must fully seal the lips.
+ */
+export const getMouthShape = (weights: VisemeWeights) => {
+  let open = 0;
+  let width = 0;
+  let round = 0;
+  for (const viseme of VISEMES) {
+    const weight = weights[viseme];
+    const shape = visemeShapes[viseme];
+    open += shape.open * weight;
+    width += shape.width * weight;
+    round += shape.round * weight;
+  }
+  return { open, width, round, closure: weights.PP };
+};
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createZip, readZip, type ZipEntry } from "@/lib/zip";
+
+const encoder = new TextEncoder();
+
+const entries: ZipEntry[] = [
+  { name: "project.json", data: encoder.encode('{"name":"Take"}') },
+  { name: "media/portrait.png", data: new Uint8Array([137, 80, 78, 71, 0, 255]) },
+  { name: "empty.txt", data: new Uint8Array() }
+];
+
+describe("zip", () => {
+  it("reads back the entries it wrote", async () => {
+    assert.deepEqual(await readZip(createZip(entries)), entries);
+  });
+
+  it("writes the same bytes for the same entries", async () => {
+    const [first, second] = await Promise.all(
+      [createZip(entries), createZip(entries)].map(async (blob) =>
+        new Uint8Array(await blob.arrayBuffer())
+      )
+    );
+    assert.deepEqual(first, second);
+  });
+
+  it("reads deflated entries written by other tools", async () => {
+    const text = "hello hello hello hello";
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+    const deflated = new Uint8Array(await new Response(stream).arrayBuffer());
+    const bytes = new Uint8Array(
+      await createZip([{ name: "note.txt", data: deflated }]).arrayBuffer()
+    );
+    // Mark the entry as deflated in both headers; sizes already describe the stored bytes.
+    const view = new DataView(bytes.buffer);
+    view.setUint16(8, 8, true);
+    view.setUint16(30 + "note.txt".length + deflated.length + 10, 8, true);
+
+    const [entry] = await readZip(new Blob([bytes]));
+    assert.equal(new TextDecoder().decode(entry.data), text);
+  });
+
+  it("rejects anything that is not a zip", async () => {
+    await assert.rejects(readZip(new Blob(["not a zip"])), /Not a zip archive/);
+  });
+});
@@ -11,6 +11,20 @@ const nextConfig = {
   },
   compiler: {
     emotion: false
+  },
+  // The ffmpeg.wasm core runs on SharedArrayBuffer, which needs cross-origin isolation.
+  // `credentialless` isolates the page without requiring CORP headers, so remote
+  // portraits, HDR environments and a local TTS server still load.
+  async headers() {
+    return [
+      {
+        source: "/:path*",
+        headers: [
+          { key: "Cross-Origin-Opener-Policy", value: "same-origin" },
+          { key: "Cross-Origin-Embedder-Policy", value: "credentialless" }
+        ]
+      }
+    ];
   }
 };
 